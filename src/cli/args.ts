@@ -0,0 +1,350 @@
+/**
+ * Argument parsing for the `gdoc-comments-md` command-line converter.
+ *
+ * Kept free of any Node I/O so the parsing rules can be unit tested on their
+ * own; `main.ts` does the file system and process work.
+ */
+
+import { isValidTimeZone } from '$lib/utils/time';
+import {
+	DEFAULT_STYLE_PROFILE,
+	OUTPUT_FORMATS,
+	type OutputFormat,
+	type StyleProfile
+} from '$lib/services/transformer';
+import { parseSectionPath } from '$lib/utils/sections';
+import type { ThreadFilter } from '$lib/utils/thread-filter';
+
+export const USAGE = `Usage: gdoc-comments-md convert [options] <file.docx|glob|->...
+
+Converts Word/Google Docs .docx exports to markdown with inline comment
+anchors and threaded replies.
+
+Options:
+  -o, --output <file>      Write to <file> ("-" for stdout). Single input only.
+  -d, --out-dir <dir>      Write each input to <dir>/<name>.md
+      --start-page <n>     First page to convert (1-indexed)
+      --pages <n>          Number of pages to convert
+      --section <path>     Convert only this heading's section, e.g.
+                           "Design > Risks" (repeatable; replaces pages)
+      --title <title>      Document title (default: the input's file name)
+      --format <format>    How comments are written: "markdown" (default;
+                           [text]^[c1] anchors and blockquote threads),
+                           "criticmarkup" ({==text==}{>>comment<<}) or
+                           "footnotes" (Pandoc text[^c1] footnotes)
+      --status <status>    Keep only "open" or "resolved" threads
+      --author <name>      Keep only threads with a comment by this author
+                           (name or email; repeatable)
+      --exclude-author <name>
+                           Drop threads opened by this author (repeatable)
+      --after <date>       Keep only threads opened on or after this date
+      --before <date>      Keep only threads opened before this date
+      --has-replies        Keep only threads with replies
+      --comments-only      Convert only the paragraphs with comments, plus
+                           context, with "…" where text is left out
+      --context <n>        Paragraphs of context around each commented one
+                           (default 1; needs --comments-only)
+      --suggestions        Append a digest of suggested edits
+      --timestamps         Show comment dates in thread headers
+      --date-format <fmt>  Timestamp pattern (default "YYYY-MM-DD HH:mm")
+      --time-zone <zone>   IANA time zone for timestamps (default UTC)
+      --embed-images       Inline images as data: URIs instead of media/ paths
+      --plain <styles>     Render these styles as plain text (comma-separated:
+                           underline, monospace, scripts, highlight)
+      --allow-unanchored   Exit 0 even when threads land in "Unanchored comments"
+  -h, --help               Show this help
+
+With no inputs (or "-"), reads a .docx from stdin and writes markdown to
+stdout. Multiple inputs are written next to each source file unless
+--out-dir is given; inputs that would write the same file are refused.
+
+Exit codes: 0 success, 1 error, 2 unanchored comment threads found.`;
+
+export interface CliOptions {
+	/** Input paths or glob patterns; "-" means stdin. */
+	inputs: string[];
+	output?: string;
+	outDir?: string;
+	startPage?: number;
+	pageCount?: number;
+	/** Heading paths of the sections to convert. */
+	sections: string[][];
+	title?: string;
+	format: OutputFormat;
+	/** Which threads to render. */
+	threadFilter: ThreadFilter;
+	commentsOnly: boolean;
+	contextParagraphs?: number;
+	suggestionDigest: boolean;
+	timestamps: boolean;
+	dateFormat?: string;
+	timeZone?: string;
+	embedImages: boolean;
+	/** Optional style markup that is switched off. */
+	plainStyles: Array<keyof StyleProfile>;
+	allowUnanchored: boolean;
+}
+
+export type ParsedArgs =
+	| { kind: 'help' }
+	| { kind: 'convert'; options: CliOptions }
+	| { kind: 'error'; message: string };
+
+/**
+ * Parse `argv` (without the node binary and script path). The `convert`
+ * subcommand is optional so `gdoc-comments-md review.docx` also works.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+	const args = [...argv];
+	if (args[0] === 'convert') args.shift();
+
+	const options: CliOptions = {
+		inputs: [],
+		sections: [],
+		format: 'markdown',
+		threadFilter: {},
+		commentsOnly: false,
+		suggestionDigest: false,
+		timestamps: false,
+		embedImages: false,
+		plainStyles: [],
+		allowUnanchored: false
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+			? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+			: [arg, undefined];
+
+		const takeValue = (): string | undefined => {
+			if (inlineValue !== undefined) return inlineValue;
+			const next = args[i + 1];
+			if (next === undefined || (next.startsWith('-') && next !== '-')) return undefined;
+			i++;
+			return next;
+		};
+
+		switch (flag) {
+			case '-h':
+			case '--help':
+				return { kind: 'help' };
+			case '-o':
+			case '--output': {
+				const value = takeValue();
+				if (value === undefined) return { kind: 'error', message: `${flag} requires a file name` };
+				options.output = value;
+				break;
+			}
+			case '-d':
+			case '--out-dir': {
+				const value = takeValue();
+				if (value === undefined) return { kind: 'error', message: `${flag} requires a directory` };
+				options.outDir = value;
+				break;
+			}
+			case '--start-page':
+			case '--pages': {
+				const value = takeValue();
+				const n = value === undefined ? NaN : Number(value);
+				if (!Number.isInteger(n) || n < 1) {
+					return { kind: 'error', message: `${flag} requires a positive integer` };
+				}
+				if (flag === '--start-page') options.startPage = n;
+				else options.pageCount = n;
+				break;
+			}
+			case '--section': {
+				const path = parseSectionPath(takeValue() ?? '');
+				if (path.length === 0) return { kind: 'error', message: `${flag} requires a heading path` };
+				options.sections.push(path);
+				break;
+			}
+			case '--title': {
+				const value = takeValue();
+				if (value === undefined) return { kind: 'error', message: `${flag} requires a value` };
+				options.title = value;
+				break;
+			}
+			case '--format': {
+				const value = takeValue();
+				if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+					return { kind: 'error', message: `${flag} takes one of: ${OUTPUT_FORMATS.join(', ')}` };
+				}
+				options.format = value as OutputFormat;
+				break;
+			}
+			case '--status': {
+				const value = takeValue();
+				if (value !== 'open' && value !== 'resolved') {
+					return { kind: 'error', message: `${flag} takes "open" or "resolved"` };
+				}
+				options.threadFilter.status = value;
+				break;
+			}
+			case '--author':
+			case '--exclude-author': {
+				const value = takeValue();
+				if (!value?.trim()) return { kind: 'error', message: `${flag} requires a name or email` };
+				const key = flag === '--author' ? 'includeAuthors' : 'excludeAuthors';
+				options.threadFilter[key] = [...(options.threadFilter[key] ?? []), value.trim()];
+				break;
+			}
+			case '--after':
+			case '--before': {
+				const value = takeValue();
+				if (value === undefined || Number.isNaN(Date.parse(value))) {
+					return { kind: 'error', message: `${flag} requires a date (YYYY-MM-DD)` };
+				}
+				if (flag === '--after') options.threadFilter.createdAfter = value;
+				else options.threadFilter.createdBefore = value;
+				break;
+			}
+			case '--has-replies':
+				options.threadFilter.hasReplies = true;
+				break;
+			case '--comments-only':
+				options.commentsOnly = true;
+				break;
+			case '--context': {
+				const value = takeValue();
+				const n = value === undefined ? NaN : Number(value);
+				if (!Number.isInteger(n) || n < 0) {
+					return { kind: 'error', message: `${flag} requires a non-negative integer` };
+				}
+				options.contextParagraphs = n;
+				break;
+			}
+			case '--suggestions':
+				options.suggestionDigest = true;
+				break;
+			case '--timestamps':
+				options.timestamps = true;
+				break;
+			case '--date-format': {
+				const value = takeValue();
+				if (value === undefined) return { kind: 'error', message: `${flag} requires a value` };
+				options.dateFormat = value;
+				break;
+			}
+			case '--time-zone': {
+				const value = takeValue();
+				if (value === undefined || !isValidTimeZone(value)) {
+					return { kind: 'error', message: `${flag} requires an IANA time zone name` };
+				}
+				options.timeZone = value;
+				break;
+			}
+			case '--embed-images':
+				options.embedImages = true;
+				break;
+			case '--plain': {
+				const value = takeValue();
+				const styles = value?.split(',').map((s) => s.trim()) ?? [];
+				const unknown = styles.find((s) => !(s in DEFAULT_STYLE_PROFILE));
+				if (value === undefined || unknown !== undefined) {
+					return {
+						kind: 'error',
+						message: `${flag} takes a list of: ${Object.keys(DEFAULT_STYLE_PROFILE).join(', ')}`
+					};
+				}
+				options.plainStyles.push(...(styles as Array<keyof StyleProfile>));
+				break;
+			}
+			case '--allow-unanchored':
+				options.allowUnanchored = true;
+				break;
+			default:
+				if (arg.startsWith('-') && arg !== '-') {
+					return { kind: 'error', message: `Unknown option: ${arg}` };
+				}
+				options.inputs.push(arg);
+		}
+	}
+
+	if (options.inputs.length === 0) options.inputs.push('-');
+
+	const hasPageRange = options.startPage !== undefined || options.pageCount !== undefined;
+	if (options.sections.length > 0 && hasPageRange) {
+		return { kind: 'error', message: '--section cannot be combined with --start-page or --pages' };
+	}
+	if (options.contextParagraphs !== undefined && !options.commentsOnly) {
+		return { kind: 'error', message: '--context requires --comments-only' };
+	}
+	if (options.output !== undefined && options.outDir !== undefined) {
+		return { kind: 'error', message: '--output and --out-dir cannot be combined' };
+	}
+	const isGlob = options.inputs.some(hasGlobMagic);
+	if (options.output !== undefined && (options.inputs.length > 1 || isGlob)) {
+		return { kind: 'error', message: '--output only works with a single input; use --out-dir' };
+	}
+	if (options.inputs.includes('-') && options.inputs.length > 1) {
+		return { kind: 'error', message: 'stdin ("-") cannot be combined with other inputs' };
+	}
+
+	return { kind: 'convert', options };
+}
+
+export function hasGlobMagic(pattern: string): boolean {
+	return /[*?[]/.test(pattern);
+}
+
+/**
+ * Translate one path segment of a glob (`*`, `?`, `[...]`) into an anchored
+ * RegExp. `**` is handled by the directory walker, not here.
+ */
+export function globSegmentToRegExp(segment: string): RegExp {
+	let source = '';
+	for (let i = 0; i < segment.length; i++) {
+		const ch = segment[i];
+		if (ch === '*') {
+			source += '[^/]*';
+		} else if (ch === '?') {
+			source += '[^/]';
+		} else if (ch === '[') {
+			const close = segment.indexOf(']', i + 1);
+			if (close === -1) {
+				source += '\\[';
+			} else {
+				const body = segment.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+				source += `[${body}]`;
+				i = close;
+			}
+		} else {
+			source += ch.replace(/[.+^${}()|\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Markdown output path for an input file: same base name with `.md`, either
+ * beside the input or inside `outDir`.
+ */
+export function outputPathFor(input: string, outDir?: string): string {
+	const slash = input.lastIndexOf('/');
+	const dir = slash === -1 ? '' : input.slice(0, slash + 1);
+	const base = (slash === -1 ? input : input.slice(slash + 1)).replace(/\.docx$/i, '');
+	if (outDir !== undefined) return `${outDir.replace(/\/+$/, '')}/${base}.md`;
+	return `${dir}${base}.md`;
+}
+
+/**
+ * Inputs whose output path is already taken by an earlier input, each with
+ * the input it clashes with and the shared path. With `outDir`, inputs from
+ * different directories clash when they share a base name.
+ */
+export function findOutputCollisions(
+	inputs: string[],
+	outDir?: string
+): Array<{ input: string; earlier: string; target: string }> {
+	const owners = new Map<string, string>();
+	const collisions: Array<{ input: string; earlier: string; target: string }> = [];
+	for (const input of inputs) {
+		const target = outputPathFor(input, outDir);
+		const earlier = owners.get(target);
+		if (earlier === undefined) owners.set(target, input);
+		else collisions.push({ input, earlier, target });
+	}
+	return collisions;
+}
@@ -0,0 +1,213 @@
+/**
+ * `gdoc-comments-md` — Node command-line converter.
+ *
+ * Runs the same parseDocx → transformWithPageFilter pipeline as the web app.
+ * The adapter parses OOXML with the browser's DOMParser, so we install
+ * jsdom's implementation on globalThis before converting anything.
+ */
+
+import { readFileSync, writeFileSync, readdirSync, statSync, mkdirSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { JSDOM } from 'jsdom';
+import { parseDocx } from '$lib/services/docx-adapter';
+import { transformWithPageFilter } from '$lib/services/transformer';
+import { embedMediaAsDataUris } from '$lib/services/media';
+import { titleFromFileName } from '$lib/utils/local-file';
+import { normalizeRuns } from '$lib/utils/normalize';
+import { filterThreads } from '$lib/utils/thread-filter';
+import {
+	parseArgs,
+	hasGlobMagic,
+	globSegmentToRegExp,
+	outputPathFor,
+	findOutputCollisions,
+	USAGE,
+	type CliOptions
+} from './args';
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_UNANCHORED = 2;
+
+interface ConvertOutcome {
+	markdown: string;
+	unanchoredCount: number;
+}
+
+function convertBuffer(buffer: Uint8Array, title: string, options: CliOptions): ConvertOutcome {
+	const parsed = parseDocx(buffer);
+	const { media } = parsed;
+	const threads = filterThreads(parsed.threads, options.threadFilter);
+	const doc = normalizeRuns(parsed.doc);
+	doc.title = title;
+	const result = transformWithPageFilter(doc, threads, {
+		startPage: options.startPage,
+		pageCount: options.pageCount,
+		sections: options.sections,
+		format: options.format,
+		commentsOnly: options.commentsOnly,
+		contextParagraphs: options.contextParagraphs,
+		suggestionDigest: options.suggestionDigest,
+		timestamps: options.timestamps,
+		dateFormat: options.dateFormat,
+		timeZone: options.timeZone,
+		styles: Object.fromEntries(options.plainStyles.map((style) => [style, false]))
+	});
+	const markdown = options.embedImages
+		? embedMediaAsDataUris(result.markdown, media)
+		: result.markdown;
+	return { markdown, unanchoredCount: result.unanchoredCount };
+}
+
+/**
+ * Expand a glob pattern against the file system. Supports `*`, `?`, `[...]`
+ * within a path segment and `**` for any number of directories. Patterns
+ * without glob characters are returned unchanged (missing files are reported
+ * by the reader, not silently dropped here).
+ */
+function expandGlob(pattern: string): string[] {
+	if (!hasGlobMagic(pattern)) return [pattern];
+
+	const absolute = pattern.startsWith('/');
+	const segments = pattern.split('/').filter((s) => s !== '');
+	const matches: string[] = [];
+
+	const walk = (dir: string, index: number): void => {
+		if (index === segments.length) {
+			matches.push(dir);
+			return;
+		}
+		const segment = segments[index];
+		const listDir = dir === '' ? '.' : dir;
+		const childPath = (name: string) => (dir === '' ? name : join(dir, name));
+
+		if (segment === '**') {
+			walk(dir, index + 1);
+			for (const entry of safeReadDir(listDir)) {
+				if (entry.startsWith('.')) continue;
+				const path = childPath(entry);
+				if (isDirectory(path)) walk(path, index);
+			}
+			return;
+		}
+		if (!hasGlobMagic(segment)) {
+			walk(childPath(segment), index + 1);
+			return;
+		}
+		const re = globSegmentToRegExp(segment);
+		for (const entry of safeReadDir(listDir)) {
+			if (entry.startsWith('.') && !segment.startsWith('.')) continue;
+			if (re.test(entry)) walk(childPath(entry), index + 1);
+		}
+	};
+
+	walk(absolute ? '/' : '', 0);
+	return [...new Set(matches)].filter((path) => !isDirectory(path)).sort();
+}
+
+function safeReadDir(dir: string): string[] {
+	try {
+		return readdirSync(dir);
+	} catch {
+		return [];
+	}
+}
+
+function isDirectory(path: string): boolean {
+	try {
+		return statSync(path).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+function readStdin(): Uint8Array {
+	return new Uint8Array(readFileSync(0));
+}
+
+export function main(argv: string[]): number {
+	const parsed = parseArgs(argv);
+	if (parsed.kind === 'help') {
+		process.stdout.write(USAGE + '\n');
+		return EXIT_OK;
+	}
+	if (parsed.kind === 'error') {
+		process.stderr.write(`gdoc-comments-md: ${parsed.message}\n\n${USAGE}\n`);
+		return EXIT_ERROR;
+	}
+	const options = parsed.options;
+
+	globalThis.DOMParser = new JSDOM('').window.DOMParser;
+
+	if (options.inputs[0] === '-') {
+		try {
+			const outcome = convertBuffer(readStdin(), options.title ?? 'Untitled', options);
+			writeOutput(options.output, outcome.markdown);
+			return reportUnanchored('stdin', outcome.unanchoredCount, options);
+		} catch (e) {
+			process.stderr.write(`gdoc-comments-md: stdin: ${describeError(e)}\n`);
+			return EXIT_ERROR;
+		}
+	}
+
+	const files = options.inputs.flatMap(expandGlob);
+	if (files.length === 0) {
+		process.stderr.write(`gdoc-comments-md: no files match ${options.inputs.join(' ')}\n`);
+		return EXIT_ERROR;
+	}
+
+	const single = files.length === 1 && !options.inputs.some(hasGlobMagic);
+	if (!single) {
+		// Refuse up front rather than let a later input overwrite an earlier one.
+		const collisions = findOutputCollisions(files, options.outDir);
+		for (const { input, earlier, target } of collisions) {
+			process.stderr.write(
+				`gdoc-comments-md: ${earlier} and ${input} would both be written to ${target}\n`
+			);
+		}
+		if (collisions.length > 0) return EXIT_ERROR;
+	}
+	let exitCode = EXIT_OK;
+	for (const file of files) {
+		try {
+			const title = options.title ?? titleFromFileName(basename(file));
+			const outcome = convertBuffer(new Uint8Array(readFileSync(file)), title, options);
+			const target = single && options.outDir === undefined
+				? options.output
+				: outputPathFor(file, options.outDir);
+			writeOutput(target, outcome.markdown);
+			if (target !== undefined && target !== '-') {
+				process.stderr.write(`${file} → ${target}\n`);
+			}
+			const code = reportUnanchored(file, outcome.unanchoredCount, options);
+			if (code !== EXIT_OK && exitCode === EXIT_OK) exitCode = code;
+		} catch (e) {
+			process.stderr.write(`gdoc-comments-md: ${file}: ${describeError(e)}\n`);
+			exitCode = EXIT_ERROR;
+		}
+	}
+	return exitCode;
+}
+
+function writeOutput(target: string | undefined, markdown: string): void {
+	if (target === undefined || target === '-') {
+		process.stdout.write(markdown);
+		return;
+	}
+	mkdirSync(dirname(target), { recursive: true });
+	writeFileSync(target, markdown);
+}
+
+function reportUnanchored(label: string, count: number, options: CliOptions): number {
+	if (count === 0) return EXIT_OK;
+	process.stderr.write(
+		`gdoc-comments-md: ${label}: ${count} thread${count === 1 ? '' : 's'} in "Unanchored comments"\n`
+	);
+	return options.allowUnanchored ? EXIT_OK : EXIT_UNANCHORED;
+}
+
+function describeError(e: unknown): string {
+	return e instanceof Error ? e.message : String(e);
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -1,3 +1,12 @@
 // Barrel exports for lib
 export * from './stores/auth.svelte';
 export * from './stores/history.svelte';
+export * from './stores/render-settings.svelte';
+export * from './services/html-export';
+export * from './services/json-export';
+export * from './services/media';
+export {
+	transformToMarkdown,
+	OUTPUT_FORMATS,
+	type OutputFormat
+} from './services/transformer';
@@ -15,17 +15,33 @@ import type {
 	StructuralElement,
 	Paragraph,
 	ParagraphElement,
+	TextRun,
 	TextStyle,
+	Table,
+	TableRow,
+	TableCell,
 	CommentThread,
 	ThreadComment,
-	DocList
+	DocList,
+	Suggestion,
+	Footnote,
+	FootnoteReference,
+	InlineObject,
+	DocumentStyle,
+	Dimension
 } from '$lib/types/google';
+import { formatImageMarkdown } from '$lib/services/media';
 
 // OOXML namespaces.
 const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
 const W14_NS = 'http://schemas.microsoft.com/office/word/2010/wordml';
 const W15_NS = 'http://schemas.microsoft.com/office/word/2012/wordml';
 const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const MC_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+const V_NS = 'urn:schemas-microsoft-com:vml';
+const O_NS = 'urn:schemas-microsoft-com:office:office';
 
 // Map OOXML pStyle values to Docs API namedStyleType values.
 const STYLE_MAP: Record<string, string> = {
@@ -42,6 +58,11 @@ const STYLE_MAP: Record<string, string> = {
 export interface ParseDocxResult {
 	doc: GoogleDocsDocument;
 	threads: CommentThread[];
+	/**
+	 * Bytes of every embedded image the document shows, keyed by the
+	 * `contentUri` its inline object links to (e.g. `media/image1.png`).
+	 */
+	media: Record<string, Uint8Array>;
 }
 
 export function parseDocx(buffer: ArrayBuffer | Uint8Array): ParseDocxResult {
@@ -61,21 +82,33 @@ export function parseDocx(buffer: ArrayBuffer | Uint8Array): ParseDocxResult {
 
 	const lists = parseNumbering(readFile(zip, 'word/numbering.xml'));
 
+	const relsSource = readFile(zip, 'word/_rels/document.xml.rels');
 	const context: DocxContext = {
-		rels: parseRels(readFile(zip, 'word/_rels/document.xml.rels')),
+		rels: parseRels(relsSource, HYPERLINK_REL_TYPE),
+		imageRels: parseRels(relsSource, IMAGE_REL_TYPE),
+		inlineObjects: new Map(),
+		mediaPaths: new Map(),
 		openRanges: new Map(),
 		ranges: new Map(),
-		currentParaIndex: 0
+		currentParaIndex: 0,
+		suggestions: new Map(),
+		noteReferences: new Map(),
+		renderedPageBreaks: []
 	};
 
 	const state = createWalkState();
 	walkBlockContainer(body, state, context);
+	const footnotes = walkNotes(zip, context);
 
 	// Any ranges still open after the walk (End missing) become empty entries so
 	// downstream code sees the comment but renders it in the unanchored section.
 	for (const [wId, open] of context.openRanges) {
 		if (!context.ranges.has(wId)) {
-			context.ranges.set(wId, { text: '', paraIndex: open.paraIndex });
+			context.ranges.set(wId, {
+				text: '',
+				paraIndex: open.paraIndex,
+				footnoteId: open.footnoteId
+			});
 		}
 	}
 
@@ -86,11 +119,29 @@ export function parseDocx(buffer: ArrayBuffer | Uint8Array): ParseDocxResult {
 		title: '',
 		body: { content: state.content }
 	};
+	const documentStyle = extractDocumentStyle(body);
+	if (documentStyle) {
+		doc.documentStyle = documentStyle;
+	}
 	if (Object.keys(lists).length > 0) {
 		doc.lists = lists;
 	}
+	if (context.suggestions.size > 0) {
+		doc.suggestions = Object.fromEntries(context.suggestions);
+	}
+	if (footnotes.size > 0) {
+		doc.footnotes = Object.fromEntries(footnotes);
+	}
+	if (context.inlineObjects.size > 0) {
+		doc.inlineObjects = Object.fromEntries(context.inlineObjects);
+	}
+
+	const media: Record<string, Uint8Array> = {};
+	for (const [contentUri, zipPath] of context.mediaPaths) {
+		if (zip[zipPath]) media[contentUri] = zip[zipPath];
+	}
 
-	return { doc, threads };
+	return { doc, threads, media };
 }
 
 /* ---------------------------------------------------------------- */
@@ -100,13 +151,20 @@ export function parseDocx(buffer: ArrayBuffer | Uint8Array): ParseDocxResult {
 interface DocxContext {
 	/** rId → target URL (only populated for hyperlink-typed relationships). */
 	rels: Map<string, string>;
+	/** rId → target of image relationships, as written in the rels file. */
+	imageRels: Map<string, string>;
+	/** Images seen so far, keyed by the object id their element points at. */
+	inlineObjects: Map<string, InlineObject>;
+	/** `contentUri` of each embedded image → its path inside the archive. */
+	mediaPaths: Map<string, string>;
 	/**
 	 * Comment ranges currently "open" during the body walk. For each w:id we
 	 * accumulate the raw text pieces emitted by runs between Start and End
 	 * markers, but stop accumulating once the paragraph containing the Start
-	 * ends — see `sealed`. The transformer matches `quotedText` against a
-	 * single paragraph's rendered text, so a range spanning multiple `<w:p>`
-	 * must collapse to its first paragraph's portion to match at all.
+	 * ends — see `sealed`. `quotedText` describes the text in a single
+	 * paragraph, so a range spanning multiple `<w:p>` keeps its first
+	 * paragraph's portion; where the range ends is recorded separately (see
+	 * CommentRange.position).
 	 * `paraIndex` captures the `state.content` index of the paragraph that
 	 * held the Start marker — downstream, this routes the thread to the
 	 * exact originating paragraph instead of scanning all paragraphs for a
@@ -116,19 +174,74 @@ interface DocxContext {
 	 */
 	openRanges: Map<
 		string,
-		{ pieces: string[]; sealed: boolean; paraIndex: number }
+		{
+			pieces: string[];
+			sealed: boolean;
+			paraIndex: number;
+			startOffset: number;
+			cellParagraph?: number;
+			footnoteId?: string;
+		}
 	>;
 	/** Finalized w:id → raw quotedText and originating paragraph index. */
-	ranges: Map<string, { text: string; paraIndex: number }>;
-	/** Index in state.content of the paragraph currently being emitted. */
+	ranges: Map<string, CommentRange>;
+	/**
+	 * Index in body content of the paragraph currently being emitted (or of
+	 * the enclosing table, for paragraphs inside table cells).
+	 */
 	currentParaIndex: number;
+	/**
+	 * Position of the paragraph being emitted among the paragraphs of the
+	 * enclosing table (see WalkState.cellParagraphs); unset outside tables.
+	 */
+	currentCellParagraph?: number;
+	/** Index and text length of the last paragraph emitted. */
+	previousParagraph?: { paraIndex: number; length: number };
+	/** Tracked-change revision marks seen so far, keyed by suggestion id. */
+	suggestions: Map<string, Suggestion>;
+	/**
+	 * Footnote/endnote references in body order, keyed by footnote id, with
+	 * the reference mark and the body index of the referencing paragraph.
+	 */
+	noteReferences: Map<string, { footnoteNumber: string; paraIndex: number }>;
+	/** Id of the footnote being walked, while walking footnotes.xml/endnotes.xml. */
+	currentFootnoteId?: string;
+	/**
+	 * Offsets of `<w:lastRenderedPageBreak/>` markers in the paragraph being
+	 * extracted.
+	 */
+	renderedPageBreaks: number[];
+}
+
+interface CommentRange {
+	text: string;
+	paraIndex: number;
+	/** Footnote the range lies in, if it isn't in the body. */
+	footnoteId?: string;
+	/**
+	 * Where the range lies, for ranges outside footnotes: the start's offset
+	 * within the paragraph at `paraIndex`, and the paragraph index and offset
+	 * (exclusive) where it ends. Offsets are in Docs index units (see
+	 * paragraphLength). For a range in a table cell, `cellParagraph` names the
+	 * cell paragraph the offsets count in; `endOffset` is left out when the
+	 * range ends in another paragraph of the same table.
+	 */
+	position?: {
+		startOffset: number;
+		endParaIndex: number;
+		endOffset?: number;
+		cellParagraph?: number;
+	};
 }
 
 const HYPERLINK_REL_TYPE =
 	'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink';
+const IMAGE_REL_TYPE =
+	'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
 const RELS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
 
-function parseRels(source: string | undefined): Map<string, string> {
+/** rId → Target for the relationships of one type. */
+function parseRels(source: string | undefined, relType: string): Map<string, string> {
 	const map = new Map<string, string>();
 	if (!source) return map;
 	const xml = parseXml(source);
@@ -138,7 +251,7 @@ function parseRels(source: string | undefined): Map<string, string> {
 		const type = rel.getAttribute('Type');
 		const target = rel.getAttribute('Target');
 		if (!id || !type || !target) continue;
-		if (type === HYPERLINK_REL_TYPE) {
+		if (type === relType) {
 			map.set(id, target);
 		}
 	}
@@ -242,7 +355,7 @@ interface CommentExEntry {
  */
 function buildThreads(
 	zip: Record<string, Uint8Array>,
-	ranges: Map<string, { text: string; paraIndex: number }>
+	ranges: Map<string, CommentRange>
 ): CommentThread[] {
 	const commentsSource = readFile(zip, 'word/comments.xml');
 	if (!commentsSource) return [];
@@ -252,6 +365,8 @@ function buildThreads(
 		readFile(zip, 'word/commentsExtended.xml')
 	);
 
+	const emailsByAuthor = parsePeopleXml(readFile(zip, 'word/people.xml'));
+
 	const exByParaId = new Map<string, CommentExEntry>();
 	for (const ex of exEntries) exByParaId.set(ex.paraId, ex);
 
@@ -302,7 +417,7 @@ function buildThreads(
 	// separate — otherwise a later mention of "Sophia" would be merged into
 	// a conversation anchored to an earlier mention. Empty quotedText is
 	// skipped entirely; those are point comments whose identity comes from
-	// w:id and which render in the unanchored section downstream.
+	// w:id and which render as a zero-width marker at their offset.
 	const bucketsByKey = new Map<string, string[]>();
 	for (const rootWId of buckets.keys()) {
 		const range = ranges.get(rootWId);
@@ -343,9 +458,10 @@ function buildThreads(
 	for (const [wId, data] of buckets) {
 		const comments: ThreadComment[] = data.entries.map((e, i) => ({
 			authorName: e.author,
-			authorEmail: '',
+			authorEmail: emailsByAuthor.get(e.author) ?? '',
 			content: e.content,
-			isReply: i > 0
+			isReply: i > 0,
+			...(e.date ? { createdAt: e.date } : {})
 		}));
 		// Resolved only when we have explicit ex coverage for every entry AND
 		// every one is marked done. Unknown (ex-missing) entries keep the
@@ -359,7 +475,22 @@ function buildThreads(
 			quotedText: range?.text ?? '',
 			resolved: allDone,
 			comments,
-			...(range ? { anchorParaIndex: range.paraIndex } : {})
+			...(range ? { anchorParaIndex: range.paraIndex } : {}),
+			...(range?.footnoteId !== undefined ? { anchorFootnoteId: range.footnoteId } : {}),
+			...(range?.position
+				? {
+						anchorStartOffset: range.position.startOffset,
+						...(range.position.endOffset !== undefined
+							? { anchorEndOffset: range.position.endOffset }
+							: {}),
+						...(range.position.cellParagraph !== undefined
+							? { anchorCellParagraph: range.position.cellParagraph }
+							: {}),
+						...(range.position.endParaIndex > range.paraIndex
+							? { anchorEndParaIndex: range.position.endParaIndex }
+							: {})
+					}
+				: {})
 		});
 	}
 	return threads;
@@ -420,10 +551,79 @@ function parseCommentsExtendedXml(source: string | undefined): CommentExEntry[]
 	return out;
 }
 
+/* ---------------------------------------------------------------- */
+/* Footnotes and endnotes                                           */
+/* ---------------------------------------------------------------- */
+
+/**
+ * Walk the body of every referenced footnote (word/footnotes.xml) and
+ * endnote (word/endnotes.xml), in reference order. Each note is walked with
+ * its own WalkState whose `anchorIndex` is the referencing body paragraph,
+ * so comment ranges inside the note record that paragraph plus the note's
+ * id. Separator pseudo-notes and unreferenced notes are skipped.
+ */
+function walkNotes(
+	zip: Record<string, Uint8Array>,
+	context: DocxContext
+): Map<string, Footnote> {
+	const footnotes = new Map<string, Footnote>();
+	if (context.noteReferences.size === 0) return footnotes;
+
+	const elements = new Map<string, Element>();
+	const sources: Array<[path: string, tag: string, prefix: string]> = [
+		['word/footnotes.xml', 'footnote', ''],
+		['word/endnotes.xml', 'endnote', 'endnote-']
+	];
+	for (const [path, tag, prefix] of sources) {
+		const source = readFile(zip, path);
+		if (!source) continue;
+		for (const note of Array.from(parseXml(source).getElementsByTagNameNS(W_NS, tag))) {
+			const id = note.getAttributeNS(W_NS, 'id') ?? note.getAttribute('w:id');
+			if (id) elements.set(`${prefix}${id}`, note);
+		}
+	}
+
+	for (const [footnoteId, reference] of context.noteReferences) {
+		const note = elements.get(footnoteId);
+		if (!note) continue;
+		const noteState: WalkState = { content: [], offset: 0, anchorIndex: reference.paraIndex };
+		context.currentFootnoteId = footnoteId;
+		walkBlockContainer(note, noteState, context);
+		context.currentFootnoteId = undefined;
+		footnotes.set(footnoteId, { footnoteId, content: noteState.content });
+	}
+	return footnotes;
+}
+
+/**
+ * Map comment author names to email addresses from word/people.xml. Each
+ * `<w15:person w15:author>` may carry `<w15:presenceInfo w15:userId>`; the
+ * userId is only an email for some providers (AD accounts often look like
+ * `S::jane@corp.com::<guid>`, Windows Live ids are opaque hex), so we take
+ * the first email-shaped substring and skip the rest.
+ */
+function parsePeopleXml(source: string | undefined): Map<string, string> {
+	const emails = new Map<string, string>();
+	if (!source) return emails;
+	const xml = parseXml(source);
+	for (const person of Array.from(xml.getElementsByTagNameNS(W15_NS, 'person'))) {
+		const author =
+			person.getAttributeNS(W15_NS, 'author') ?? person.getAttribute('w15:author');
+		const presence = firstChildNS(person, W15_NS, 'presenceInfo');
+		const userId = presence
+			? presence.getAttributeNS(W15_NS, 'userId') ?? presence.getAttribute('w15:userId')
+			: null;
+		const email = userId?.match(/[^\s:@]+@[^\s:@]+\.[^\s:@]+/)?.[0];
+		if (author && email && !emails.has(author)) emails.set(author, email);
+	}
+	return emails;
+}
+
 /**
  * Recursively collect text content from `<w:t>` descendants, mirroring what
  * the body walker does for comment ranges but with no style markup. Skips
  * tracked-change deletions (`<w:del>`) and keeps insertions (`<w:ins>`).
+ * Tabs stay tabs and line breaks become newlines.
  */
 function extractPlainText(node: Element): string {
 	const pieces: string[] = [];
@@ -438,6 +638,15 @@ function collectText(node: Element, out: string[]): void {
 				out.push(child.textContent ?? '');
 				continue;
 			}
+			// Inside a run only: `<w:tabs>` in paragraph properties lists tab stops.
+			if (node.localName === 'r' && child.localName === 'tab') {
+				out.push('\t');
+				continue;
+			}
+			if (node.localName === 'r' && (child.localName === 'br' || child.localName === 'cr')) {
+				out.push('\n');
+				continue;
+			}
 			if (child.localName === 'del') {
 				// Tracked-change deletion — its text is *not* part of the live doc.
 				continue;
@@ -494,6 +703,19 @@ interface WalkState {
 	content: StructuralElement[];
 	/** Running character offset used to populate startIndex/endIndex. */
 	offset: number;
+	/**
+	 * Body-level index that comment ranges inside this container anchor to.
+	 * Set while walking table cells: cell paragraphs live in the cell's own
+	 * `content` array, but the transformer routes threads by index into
+	 * `doc.body.content`, so a range inside a cell must point at the table.
+	 */
+	anchorIndex?: number;
+	/**
+	 * Count of paragraphs emitted so far in the enclosing top-level table,
+	 * shared by the states of all its cells (nested tables included), so each
+	 * cell paragraph gets its reading-order position in the table.
+	 */
+	cellParagraphs?: { count: number };
 }
 
 function createWalkState(): WalkState {
@@ -505,13 +727,11 @@ function createWalkState(): WalkState {
 
 /**
  * Walk the children of a block-level container (<w:body>, <w:tc>, <w:sdtContent>)
- * emitting paragraphs into state.content in document order.
+ * emitting paragraphs and tables into state.content in document order.
  *
- * Tables and structured-document-tag wrappers are walked through transparently
- * so their inner paragraphs and comment-range markers are still captured. We do
- * not emit any structural element for the table itself (cells' paragraphs are
- * flattened into the main content stream) — the transformer has no special
- * table rendering, so flattening keeps the paragraph-centric model intact.
+ * Structured-document-tag wrappers are walked through transparently so their
+ * inner paragraphs and comment-range markers are still captured. Tables become
+ * a single `table` StructuralElement whose cells hold their own content.
  */
 function walkBlockContainer(
 	container: Element,
@@ -525,12 +745,7 @@ function walkBlockContainer(
 				emitParagraph(child, state, context);
 				break;
 			case 'tbl':
-				// <w:tbl> → <w:tr> → <w:tc> → block content.
-				for (const row of childrenNS(child, W_NS, 'tr')) {
-					for (const cell of childrenNS(row, W_NS, 'tc')) {
-						walkBlockContainer(cell, state, context);
-					}
-				}
+				emitTable(child, state, context);
 				break;
 			case 'sdt': {
 				// Structured Document Tag wrapper. Walk inside sdtContent.
@@ -542,21 +757,66 @@ function walkBlockContainer(
 	}
 }
 
+/**
+ * Emit a `table` StructuralElement for a <w:tbl>.
+ *
+ * <w:tbl> → <w:tr> → <w:tc> → block content. Each cell is walked with its own
+ * WalkState so its paragraphs land in `TableCell.content`, while the running
+ * offset stays shared with the enclosing container. Every comment range inside
+ * the table anchors to the table's body index (see WalkState.anchorIndex);
+ * nested tables inherit the outermost table's index, and their paragraphs
+ * are numbered along with the outermost table's (WalkState.cellParagraphs).
+ */
+function emitTable(tbl: Element, state: WalkState, context: DocxContext): void {
+	const anchorIndex = state.anchorIndex ?? state.content.length;
+	const cellParagraphs = state.cellParagraphs ?? { count: 0 };
+	const startIndex = state.offset;
+
+	const tableRows: TableRow[] = [];
+	let columns = 0;
+	for (const row of childrenNS(tbl, W_NS, 'tr')) {
+		const rowStart = state.offset;
+		const tableCells: TableCell[] = [];
+		for (const cell of childrenNS(row, W_NS, 'tc')) {
+			const cellStart = state.offset;
+			const cellState: WalkState = {
+				content: [],
+				offset: cellStart,
+				anchorIndex,
+				cellParagraphs
+			};
+			walkBlockContainer(cell, cellState, context);
+			state.offset = cellState.offset;
+			tableCells.push({
+				startIndex: cellStart,
+				endIndex: state.offset,
+				content: cellState.content
+			});
+		}
+		columns = Math.max(columns, tableCells.length);
+		tableRows.push({ startIndex: rowStart, endIndex: state.offset, tableCells });
+	}
+
+	const table: Table = { rows: tableRows.length, columns, tableRows };
+	state.content.push({ startIndex, endIndex: state.offset, table });
+}
+
 /**
  * Emit a StructuralElement wrapping a <w:p>.
  */
 function emitParagraph(p: Element, state: WalkState, context: DocxContext): void {
-	// The paragraph we're about to build lives at state.content.length.
-	// Record that index so any <w:commentRangeStart> marker encountered
-	// inside this paragraph knows which paragraph it anchors to.
-	context.currentParaIndex = state.content.length;
+	// The paragraph we're about to build lives at state.content.length (or,
+	// inside a table cell, belongs to the table's body index). Record that
+	// index so any <w:commentRangeStart> marker encountered inside this
+	// paragraph knows which body element it anchors to.
+	context.currentParaIndex = state.anchorIndex ?? state.content.length;
+	context.currentCellParagraph = state.cellParagraphs
+		? state.cellParagraphs.count++
+		: undefined;
 
 	const paragraph = extractParagraph(p, context);
 	const startIndex = state.offset;
-	const paraTextLength = paragraph.elements.reduce(
-		(sum, el) => sum + (el.textRun?.content.length ?? 0),
-		0
-	);
+	const paraTextLength = paragraphLength(paragraph.elements);
 	// Paragraphs in the Docs API always end with a newline in their text
 	// stream; mirror that by advancing the offset one past the text length.
 	state.offset = startIndex + paraTextLength + 1;
@@ -573,6 +833,22 @@ function emitParagraph(p: Element, state: WalkState, context: DocxContext): void
 	for (const open of context.openRanges.values()) {
 		open.sealed = true;
 	}
+	context.previousParagraph = { paraIndex: context.currentParaIndex, length: paraTextLength };
+}
+
+/**
+ * Length of a paragraph's text stream in Docs index units: footnote
+ * references, images and page breaks occupy one index each, as in the Docs
+ * API.
+ */
+function paragraphLength(elements: ParagraphElement[]): number {
+	return elements.reduce(
+		(sum, el) =>
+			sum +
+			(el.textRun?.content.length ??
+				(el.footnoteReference || el.inlineObjectElement || el.pageBreak ? 1 : 0)),
+		0
+	);
 }
 
 /**
@@ -586,7 +862,8 @@ function emitParagraph(p: Element, state: WalkState, context: DocxContext): void
  */
 function extractParagraph(p: Element, context: DocxContext): Paragraph {
 	const elements: ParagraphElement[] = [];
-	walkInlineChildren(p, elements, undefined, context);
+	context.renderedPageBreaks = [];
+	walkInlineChildren(p, elements, {}, context);
 
 	const paragraphStyle = extractParagraphStyle(p);
 	const bullet = extractBullet(p);
@@ -594,6 +871,9 @@ function extractParagraph(p: Element, context: DocxContext): Paragraph {
 	const paragraph: Paragraph = { elements };
 	if (paragraphStyle) paragraph.paragraphStyle = paragraphStyle;
 	if (bullet) paragraph.bullet = bullet;
+	if (context.renderedPageBreaks.length > 0) {
+		paragraph.renderedPageBreaks = context.renderedPageBreaks;
+	}
 	return paragraph;
 }
 
@@ -634,50 +914,68 @@ function resolveHyperlinkUrl(
 	return context.rels.get(rId);
 }
 
+/**
+ * Inline properties inherited from enclosing wrappers: the URL of an enclosing
+ * `<w:hyperlink>` and the tracked change (`<w:ins>` / `<w:del>`) the runs
+ * belong to.
+ */
+interface InlineScope {
+	linkUrl?: string;
+	suggestion?: Suggestion;
+}
+
 /**
  * Recursively walk the inline contents of a paragraph. Pass-through wrappers
- * (sdt/sdtContent and tracked-change insertions) are transparent; tracked-
- * change deletions are skipped. Hyperlinks propagate their URL to the runs
- * they enclose. Comment-range markers toggle the corresponding accumulators
- * in `context`.
+ * (sdt/sdtContent) are transparent. Hyperlinks propagate their URL to the runs
+ * they enclose; tracked-change insertions and deletions propagate their
+ * suggestion so the runs are tagged rather than silently merged or dropped.
+ * Comment-range markers toggle the corresponding accumulators in `context`.
  */
 function walkInlineChildren(
 	parent: Element,
 	elements: ParagraphElement[],
-	linkUrl: string | undefined,
+	scope: InlineScope,
 	context: DocxContext
 ): void {
 	for (const child of Array.from(parent.children)) {
 		if (child.namespaceURI !== W_NS) continue;
 		switch (child.localName) {
 			case 'r':
-				elements.push(...extractRun(child, linkUrl, context));
+				elements.push(...extractRun(child, scope, context, paragraphLength(elements)));
 				break;
 			case 'hyperlink':
 				walkInlineChildren(
 					child,
 					elements,
-					resolveHyperlinkUrl(child, context),
+					{ ...scope, linkUrl: resolveHyperlinkUrl(child, context) },
 					context
 				);
 				break;
 			case 'sdt':
 			case 'sdtContent':
-			case 'ins':
 				// Pass-through wrappers — recurse; the wrapped content is live.
-				walkInlineChildren(child, elements, linkUrl, context);
+				walkInlineChildren(child, elements, scope, context);
 				break;
-			case 'del':
-				// Tracked-change deletion: the enclosed text is not part of the
-				// rendered document. Skip the subtree entirely.
+			case 'ins':
+			case 'del': {
+				const suggestion = registerSuggestion(
+					child,
+					child.localName === 'ins' ? 'insertion' : 'deletion',
+					context
+				);
+				walkInlineChildren(child, elements, { ...scope, suggestion }, context);
 				break;
+			}
 			case 'commentRangeStart': {
 				const id = child.getAttributeNS(W_NS, 'id') ?? child.getAttribute('w:id');
 				if (id && !context.openRanges.has(id)) {
 					context.openRanges.set(id, {
 						pieces: [],
 						sealed: false,
-						paraIndex: context.currentParaIndex
+						paraIndex: context.currentParaIndex,
+						startOffset: paragraphLength(elements),
+						cellParagraph: context.currentCellParagraph,
+						footnoteId: context.currentFootnoteId
 					});
 				}
 				break;
@@ -686,9 +984,26 @@ function walkInlineChildren(
 				const id = child.getAttributeNS(W_NS, 'id') ?? child.getAttribute('w:id');
 				if (id && context.openRanges.has(id)) {
 					const open = context.openRanges.get(id)!;
+					const end = rangeEnd(open, paragraphLength(elements), context);
 					context.ranges.set(id, {
 						text: open.pieces.join(''),
-						paraIndex: open.paraIndex
+						paraIndex: open.paraIndex,
+						footnoteId: open.footnoteId,
+						...(open.footnoteId === undefined
+							? {
+									position: {
+										startOffset: open.startOffset,
+										endParaIndex: end.paraIndex,
+										...(end.paraIndex === open.paraIndex &&
+										context.currentCellParagraph !== open.cellParagraph
+											? {}
+											: { endOffset: end.offset }),
+										...(open.cellParagraph !== undefined
+											? { cellParagraph: open.cellParagraph }
+											: {})
+									}
+								}
+							: {})
 					});
 					context.openRanges.delete(id);
 				}
@@ -699,6 +1014,82 @@ function walkInlineChildren(
 	}
 }
 
+/**
+ * Where a range ending at `endOffset` of the current paragraph ends. When it
+ * started in an earlier paragraph, an end at the very start of this one is
+ * moved to the end of the previous one, so the range doesn't claim a
+ * paragraph it covers none of.
+ */
+function rangeEnd(
+	open: { paraIndex: number },
+	endOffset: number,
+	context: DocxContext
+): { paraIndex: number; offset: number } {
+	const previous = context.previousParagraph;
+	if (endOffset === 0 && previous && context.currentParaIndex > open.paraIndex) {
+		return { paraIndex: previous.paraIndex, offset: previous.length };
+	}
+	return { paraIndex: context.currentParaIndex, offset: endOffset };
+}
+
+/**
+ * Record the revision mark on a `<w:ins>` / `<w:del>` element. Marks without
+ * a `w:id` get a synthetic one so their runs still group together.
+ */
+function registerSuggestion(
+	el: Element,
+	kind: Suggestion['kind'],
+	context: DocxContext
+): Suggestion {
+	const id =
+		el.getAttributeNS(W_NS, 'id') ??
+		el.getAttribute('w:id') ??
+		`anon-${context.suggestions.size}`;
+	const existing = context.suggestions.get(id);
+	if (existing) return existing;
+	const suggestion: Suggestion = {
+		id,
+		kind,
+		authorName: el.getAttributeNS(W_NS, 'author') ?? el.getAttribute('w:author') ?? '',
+		date: el.getAttributeNS(W_NS, 'date') ?? el.getAttribute('w:date') ?? ''
+	};
+	context.suggestions.set(id, suggestion);
+	return suggestion;
+}
+
+/**
+ * Page size and margins from the body's final `<w:sectPr>`, which holds the
+ * settings of the document's last (usually only) section. Twips become
+ * points.
+ */
+function extractDocumentStyle(body: Element): DocumentStyle | undefined {
+	const sectPr = firstChildNS(body, W_NS, 'sectPr');
+	const pgSz = firstChildNS(sectPr, W_NS, 'pgSz');
+	const width = twipsToDimension(attrW(pgSz, 'w'));
+	const height = twipsToDimension(attrW(pgSz, 'h'));
+	if (!width || !height) return undefined;
+
+	const style: DocumentStyle = { pageSize: { width, height } };
+	const pgMar = firstChildNS(sectPr, W_NS, 'pgMar');
+	const margins = [
+		['marginTop', 'top'],
+		['marginBottom', 'bottom'],
+		['marginLeft', 'left'],
+		['marginRight', 'right']
+	] as const;
+	for (const [key, attr] of margins) {
+		const margin = twipsToDimension(attrW(pgMar, attr));
+		if (margin) style[key] = margin;
+	}
+	return style;
+}
+
+function twipsToDimension(value: string | undefined): Dimension | undefined {
+	const twips = Number(value);
+	if (!value || !Number.isFinite(twips)) return undefined;
+	return { magnitude: Math.abs(twips) / 20, unit: 'PT' };
+}
+
 /**
  * Extract paragraph style from the <w:pPr> element, if any.
  * Only emits a paragraphStyle object when at least one recognizable field is
@@ -723,56 +1114,227 @@ function extractParagraphStyle(p: Element): Paragraph['paragraphStyle'] {
 /**
  * Extract ParagraphElements from a <w:r> (run) element. A run may contain
  * multiple text-bearing children (<w:t>, <w:tab/>, <w:br/>); we collect all
- * text content and emit a single ParagraphElement per run.
+ * text content and emit a single ParagraphElement per run. Runs inside a
+ * tracked deletion carry their text in `<w:delText>` instead of `<w:t>`.
+ * A `<w:footnoteReference>` / `<w:endnoteReference>` becomes its own
+ * `footnoteReference` element, an image (`<w:drawing>`, `<w:pict>`, or
+ * either inside `<mc:AlternateContent>`) its own `inlineObjectElement`, and a
+ * `<w:br w:type="page"/>` a `pageBreak`, splitting the run's text around it.
+ * Tabs become `\t` and other breaks (`<w:br/>`, `<w:cr/>`) `\v`. A
+ * `<w:lastRenderedPageBreak/>` is recorded in `context.renderedPageBreaks` at
+ * its offset in the paragraph, given the run's start offset `runStart`.
  *
- * @param linkUrl when the run lives inside a <w:hyperlink>, its resolved URL
+ * @param scope when the run lives inside a <w:hyperlink>, its resolved URL
  *   is merged into the emitted TextStyle so downstream markdown rendering
  *   sees a single "linked" ParagraphElement and does not need to stitch runs
- *   back together.
+ *   back together. An enclosing tracked change tags the run with its
+ *   suggestion id.
  */
 function extractRun(
 	r: Element,
-	linkUrl: string | undefined,
-	context: DocxContext
+	scope: InlineScope,
+	context: DocxContext,
+	runStart: number
 ): ParagraphElement[] {
 	const style = extractTextStyle(r);
-	const pieces: string[] = [];
+	const elements: ParagraphElement[] = [];
+	let pieces: string[] = [];
+
+	const flush = () => {
+		const joined = pieces.join('');
+		pieces = [];
+		if (joined) elements.push(buildTextElement(joined, style, scope, context));
+	};
 
 	for (const child of Array.from(r.children)) {
+		if (child.namespaceURI === MC_NS && child.localName === 'AlternateContent') {
+			// Word writes the DrawingML picture as the Choice and a VML copy as
+			// the Fallback; take whichever comes first.
+			const picture = Array.from(child.getElementsByTagNameNS(W_NS, '*')).find(
+				(el) => el.localName === 'drawing' || el.localName === 'pict'
+			);
+			if (picture) {
+				flush();
+				const image = extractImage(picture, scope, context);
+				if (image) elements.push(image);
+			}
+			continue;
+		}
 		if (child.namespaceURI !== W_NS) continue;
-		if (child.localName === 't') {
+		if (child.localName === 't' || child.localName === 'delText') {
 			pieces.push(child.textContent ?? '');
+		} else if (
+			child.localName === 'footnoteReference' ||
+			child.localName === 'endnoteReference'
+		) {
+			flush();
+			const footnoteReference = registerNoteReference(child, context);
+			if (footnoteReference) elements.push({ startIndex: 0, endIndex: 0, footnoteReference });
+		} else if (child.localName === 'drawing' || child.localName === 'pict') {
+			flush();
+			const image = extractImage(child, scope, context);
+			if (image) elements.push(image);
+		} else if (child.localName === 'tab') {
+			pieces.push('\t');
+		} else if (child.localName === 'br' && attrW(child, 'type') === 'page') {
+			flush();
+			elements.push({ startIndex: 0, endIndex: 0, pageBreak: {} });
+		} else if (child.localName === 'br' || child.localName === 'cr') {
+			// A soft line break; the Docs API writes it as a vertical tab.
+			pieces.push('\v');
+		} else if (child.localName === 'lastRenderedPageBreak') {
+			context.renderedPageBreaks.push(
+				runStart + paragraphLength(elements) + pieces.join('').length
+			);
 		}
-		// Tab/break handling lands in a later phase.
 	}
+	flush();
 
-	const joined = pieces.join('');
-	if (!joined) return [];
+	return elements;
+}
 
-	// Feed the raw text into every open comment range so quotedText accumulates
-	// byte-identical to the paragraph's text stream between Start and End.
-	// Ranges sealed at a previous paragraph boundary stop growing — see
-	// DocxContext.openRanges for the rationale.
-	if (context.openRanges.size > 0) {
-		for (const open of context.openRanges.values()) {
-			if (!open.sealed) open.pieces.push(joined);
-		}
-	}
+function buildTextElement(
+	text: string,
+	style: TextStyle | undefined,
+	scope: InlineScope,
+	context: DocxContext
+): ParagraphElement {
+	const isDeletion = scope.suggestion?.kind === 'deletion';
+	feedOpenRanges(text, scope, context);
 
 	const textStyle: TextStyle = { ...(style ?? {}) };
-	if (linkUrl) textStyle.link = { url: linkUrl };
+	if (scope.linkUrl) textStyle.link = { url: scope.linkUrl };
 	const hasAnyStyle = Object.keys(textStyle).length > 0;
 
-	return [
-		{
-			startIndex: 0,
-			endIndex: 0,
-			textRun: {
-				content: joined,
-				...(hasAnyStyle ? { textStyle } : {})
+	const textRun: TextRun = {
+		content: text,
+		...(hasAnyStyle ? { textStyle } : {})
+	};
+	if (scope.suggestion) {
+		if (isDeletion) textRun.suggestedDeletionIds = [scope.suggestion.id];
+		else textRun.suggestedInsertionIds = [scope.suggestion.id];
+	}
+
+	return { startIndex: 0, endIndex: 0, textRun };
+}
+
+/**
+ * Feed text into every open comment range so quotedText accumulates
+ * byte-identical to the paragraph's text stream between Start and End.
+ * Ranges sealed at a previous paragraph boundary stop growing — see
+ * DocxContext.openRanges for the rationale. Suggested deletions are not
+ * part of the live text a comment quotes, so they are never fed in.
+ */
+function feedOpenRanges(text: string, scope: InlineScope, context: DocxContext): void {
+	if (context.openRanges.size === 0 || scope.suggestion?.kind === 'deletion') return;
+	for (const open of context.openRanges.values()) {
+		if (!open.sealed) open.pieces.push(text);
+	}
+}
+
+/**
+ * Build an `inlineObjectElement` for a `<w:drawing>` (DrawingML) or legacy
+ * `<w:pict>` (VML) picture. Alt text and title come from `<wp:docPr>`, or
+ * from the VML shape's `alt` and the image data's `o:title`; the picture's
+ * relationship resolves to a media file in the archive or an external URL.
+ * Drawings that aren't pictures (shapes, charts) have no image relationship
+ * and are skipped. Open comment ranges receive the image's markdown, so a
+ * comment on an image quotes it and anchors to it.
+ */
+function extractImage(
+	el: Element,
+	scope: InlineScope,
+	context: DocxContext
+): ParagraphElement | undefined {
+	let rId: string | null | undefined;
+	let description: string | null | undefined;
+	let title: string | null | undefined;
+	if (el.localName === 'drawing') {
+		const blip = el.getElementsByTagNameNS(A_NS, 'blip')[0];
+		rId = blip
+			? (blip.getAttributeNS(R_NS, 'embed') ??
+				blip.getAttribute('r:embed') ??
+				blip.getAttributeNS(R_NS, 'link') ??
+				blip.getAttribute('r:link'))
+			: null;
+		const docPr = el.getElementsByTagNameNS(WP_NS, 'docPr')[0];
+		description = docPr?.getAttribute('descr');
+		title = docPr?.getAttribute('title');
+	} else {
+		const imageData = el.getElementsByTagNameNS(V_NS, 'imagedata')[0];
+		rId = imageData
+			? (imageData.getAttributeNS(R_NS, 'id') ?? imageData.getAttribute('r:id'))
+			: null;
+		description = el.getElementsByTagNameNS(V_NS, 'shape')[0]?.getAttribute('alt');
+		title = imageData
+			? (imageData.getAttributeNS(O_NS, 'title') ?? imageData.getAttribute('o:title'))
+			: null;
+	}
+
+	const target = rId ? context.imageRels.get(rId) : undefined;
+	if (!target) return undefined;
+
+	let contentUri = target;
+	if (!/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+		const zipPath = resolvePartPath('word/', target);
+		contentUri = zipPath.replace(/^word\//, '');
+		context.mediaPaths.set(contentUri, zipPath);
+	}
+
+	const objectId = `image-${context.inlineObjects.size + 1}`;
+	const object: InlineObject = {
+		objectId,
+		inlineObjectProperties: {
+			embeddedObject: {
+				...(description ? { description } : {}),
+				...(title ? { title } : {}),
+				imageProperties: { contentUri }
 			}
 		}
-	];
+	};
+	context.inlineObjects.set(objectId, object);
+	feedOpenRanges(formatImageMarkdown(object), scope, context);
+
+	return { startIndex: 0, endIndex: 0, inlineObjectElement: { inlineObjectId: objectId } };
+}
+
+/**
+ * Resolve a relationship target against the folder of the part that owns
+ * it. Absolute targets (`/word/media/x.png`) are relative to the archive
+ * root.
+ */
+function resolvePartPath(baseDir: string, target: string): string {
+	const segments = target.startsWith('/') ? [] : baseDir.split('/').filter(Boolean);
+	for (const segment of target.split('/')) {
+		if (segment === '..') segments.pop();
+		else if (segment && segment !== '.') segments.push(segment);
+	}
+	return segments.join('/');
+}
+
+/**
+ * Record a body reference to a footnote or endnote and number it. Marks are
+ * numbered in reference order across both kinds, so every `[^n]` label in
+ * the output is unique. Endnote ids are prefixed to keep them apart from
+ * footnote ids, which Word numbers independently.
+ */
+function registerNoteReference(
+	el: Element,
+	context: DocxContext
+): FootnoteReference | undefined {
+	const id = el.getAttributeNS(W_NS, 'id') ?? el.getAttribute('w:id');
+	if (!id || context.currentFootnoteId !== undefined) return undefined;
+	const footnoteId = el.localName === 'endnoteReference' ? `endnote-${id}` : id;
+
+	let reference = context.noteReferences.get(footnoteId);
+	if (!reference) {
+		reference = {
+			footnoteNumber: String(context.noteReferences.size + 1),
+			paraIndex: context.currentParaIndex
+		};
+		context.noteReferences.set(footnoteId, reference);
+	}
+	return { footnoteId, footnoteNumber: reference.footnoteNumber };
 }
 
 /**
@@ -788,9 +1350,33 @@ function extractTextStyle(r: Element): TextStyle | undefined {
 	if (hasOnToggle(rPr, 'i')) style.italic = true;
 	if (hasOnToggle(rPr, 'strike')) style.strikethrough = true;
 
+	const underline = firstChildNS(rPr, W_NS, 'u');
+	if (underline && attrW(underline, 'val') !== 'none') style.underline = true;
+
+	const vertAlign = attrW(firstChildNS(rPr, W_NS, 'vertAlign'), 'val');
+	if (vertAlign === 'superscript') style.baselineOffset = 'SUPERSCRIPT';
+	else if (vertAlign === 'subscript') style.baselineOffset = 'SUBSCRIPT';
+
+	const fonts = firstChildNS(rPr, W_NS, 'rFonts');
+	const fontFamily = attrW(fonts, 'ascii') ?? attrW(fonts, 'hAnsi') ?? attrW(fonts, 'cs');
+	if (fontFamily) style.weightedFontFamily = { fontFamily };
+
+	// A highlight colour wins over shading; `auto` / `none` mean no fill.
+	const highlight = attrW(firstChildNS(rPr, W_NS, 'highlight'), 'val');
+	const shading = firstChildNS(rPr, W_NS, 'shd');
+	const fill = attrW(shading, 'val') === 'nil' ? undefined : attrW(shading, 'fill');
+	if (highlight !== undefined && highlight !== 'none') style.backgroundColor = highlight;
+	else if (fill !== undefined && fill !== 'auto') style.backgroundColor = fill;
+
 	return Object.keys(style).length > 0 ? style : undefined;
 }
 
+/** A `w:`-namespaced attribute of `el`, or undefined when either is missing. */
+function attrW(el: Element | null, localName: string): string | undefined {
+	if (!el) return undefined;
+	return el.getAttributeNS(W_NS, localName) ?? el.getAttribute(`w:${localName}`) ?? undefined;
+}
+
 /**
  * OOXML boolean toggles are on by default when the element exists. An explicit
  * `w:val="false"` or `w:val="0"` turns the toggle *off*; any other value (or
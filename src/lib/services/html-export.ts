@@ -0,0 +1,467 @@
+/**
+ * Renders a parsed document and its comment threads as one self-contained
+ * HTML page, for readers who don't read markdown: the document in the main
+ * column and each thread in a margin beside its anchor, with `<mark>` spans
+ * and threads highlighting each other on hover and click.
+ *
+ * Built on `buildJsonExport`, so anchor ids and placement match the JSON
+ * output (see json-export.ts for how that relates to the markdown). Text
+ * renders from each paragraph's runs: suggested edits as `<ins>` / `<del>`,
+ * links, bold, italic, strikethrough and monospace runs as `<code>`. Images
+ * are left out, since the page links to nothing outside itself.
+ */
+
+import type {
+	CommentThread,
+	GoogleDocsDocument,
+	ParagraphElement,
+	TextRun
+} from '$lib/types/google';
+import {
+	buildJsonExport,
+	collectExportParagraphs,
+	type JsonAnchor,
+	type JsonComment,
+	type JsonParagraph,
+	type JsonThread
+} from '$lib/services/json-export';
+import { isMonospaceFont, type CommentFormatOptions } from '$lib/services/transformer';
+import { formatTimestamp } from '$lib/utils/time';
+
+/** A JSON paragraph with the runs its text came from. */
+type HtmlParagraph = JsonParagraph & { elements: ParagraphElement[] };
+
+const HEADING_TAGS: Record<string, string> = {
+	TITLE: 'h1',
+	HEADING_1: 'h2',
+	HEADING_2: 'h3',
+	HEADING_3: 'h4',
+	HEADING_4: 'h5',
+	HEADING_5: 'h6',
+	HEADING_6: 'h6'
+};
+
+/**
+ * Transform a document and its threads to a standalone HTML page. Comment
+ * headers follow `options` as in the markdown output: fallback emails, and
+ * dates when `timestamps` is set.
+ */
+export function transformToHtml(
+	doc: GoogleDocsDocument,
+	threads: CommentThread[],
+	options: CommentFormatOptions = {}
+): string {
+	const data = buildJsonExport(doc, threads);
+	const sources = collectExportParagraphs(doc);
+	const paragraphs: HtmlParagraph[] = data.paragraphs.map((paragraph, i) => ({
+		...paragraph,
+		elements: sources[i].paragraph.elements
+	}));
+	const body = paragraphs.filter((p) => p.footnoteId === undefined);
+	const footnotes = paragraphs.filter((p) => p.footnoteId !== undefined);
+	const anchored = new Set(
+		data.paragraphs.flatMap((p) => p.anchors.filter((a) => !a.continuation).map((a) => a.anchorId))
+	);
+	const unanchored = data.threads.filter((thread) => !anchored.has(thread.anchorId));
+
+	const article: string[] = [];
+	if (!body.some((p) => p.style === 'TITLE' && !p.cell)) {
+		article.push(`<h1>${escapeHtml(data.title)}</h1>`);
+	}
+	article.push(...renderBody(body));
+	if (footnotes.length > 0) article.push(...renderFootnotes(footnotes));
+
+	const margin = data.threads
+		.filter((thread) => anchored.has(thread.anchorId))
+		.map((thread) => renderThread(thread, options));
+	if (unanchored.length > 0) {
+		margin.push(
+			'<section class="unanchored">',
+			'<h2>Unanchored comments</h2>',
+			...unanchored.map((thread) => renderThread(thread, options, true)),
+			'</section>'
+		);
+	}
+
+	return [
+		'<!doctype html>',
+		'<html lang="en">',
+		'<head>',
+		'<meta charset="utf-8">',
+		'<meta name="viewport" content="width=device-width, initial-scale=1">',
+		'<meta name="color-scheme" content="dark light">',
+		`<title>${escapeHtml(data.title)}</title>`,
+		`<style>${STYLES}</style>`,
+		'</head>',
+		'<body>',
+		'<main class="review">',
+		'<article class="document">',
+		...article,
+		'</article>',
+		'<aside class="threads">',
+		...margin,
+		'</aside>',
+		'</main>',
+		`<script>${SCRIPT}</script>`,
+		'</body>',
+		'</html>',
+		''
+	].join('\n');
+}
+
+/**
+ * Body paragraphs as blocks: headings, paragraphs, lists nested by level,
+ * and tables from the paragraphs of their cells.
+ */
+function renderBody(paragraphs: HtmlParagraph[]): string[] {
+	const html: string[] = [];
+	// Tags of the open lists, outermost first; their last item is open too.
+	const lists: string[] = [];
+	const closeLists = (depth: number) => {
+		while (lists.length > depth) html.push(`</li></${lists.pop()}>`);
+	};
+
+	for (let i = 0; i < paragraphs.length; i++) {
+		const paragraph = paragraphs[i];
+
+		if (paragraph.cell) {
+			closeLists(0);
+			const cells = [paragraph];
+			while (paragraphs[i + 1]?.cell && paragraphs[i + 1].index === paragraph.index) {
+				cells.push(paragraphs[++i]);
+			}
+			html.push(...renderTable(cells));
+			continue;
+		}
+
+		if (paragraph.list) {
+			const { nestingLevel, ordered } = paragraph.list;
+			const tag = ordered ? 'ol' : 'ul';
+			closeLists(nestingLevel + 1);
+			if (lists.length === nestingLevel + 1) {
+				if (lists[nestingLevel] === tag) html.push('</li>');
+				else closeLists(nestingLevel);
+			}
+			while (lists.length < nestingLevel + 1) {
+				html.push(`<${tag}>`);
+				lists.push(tag);
+			}
+			html.push(`<li>${renderText(paragraph)}`);
+			continue;
+		}
+
+		closeLists(0);
+		if (isBlank(paragraph)) continue;
+		const tag = HEADING_TAGS[paragraph.style];
+		if (tag) {
+			html.push(`<${tag}>${renderText(paragraph)}</${tag}>`);
+		} else if (paragraph.style === 'SUBTITLE') {
+			html.push(`<p class="subtitle">${renderText(paragraph)}</p>`);
+		} else {
+			html.push(`<p>${renderText(paragraph)}</p>`);
+		}
+	}
+	closeLists(0);
+	return html;
+}
+
+/** A table from the paragraphs of its cells, several per cell joined by `<br>`. */
+function renderTable(cells: HtmlParagraph[]): string[] {
+	const rows: string[][][] = [];
+	for (const paragraph of cells) {
+		const { row, column } = paragraph.cell!;
+		rows[row] ??= [];
+		(rows[row][column] ??= []).push(renderText(paragraph));
+	}
+	const columns = Math.max(...Array.from(rows, (row) => row?.length ?? 0));
+	return [
+		'<table>',
+		...Array.from(rows, (row = []) => {
+			const tds = Array.from({ length: columns }, (_, c) =>
+				`<td>${(row[c] ?? []).filter((text) => text).join('<br>')}</td>`
+			);
+			return `<tr>${tds.join('')}</tr>`;
+		}),
+		'</table>'
+	];
+}
+
+/** Footnote paragraphs grouped into one numbered note per footnote. */
+function renderFootnotes(paragraphs: HtmlParagraph[]): string[] {
+	const notes = new Map<string, string[]>();
+	for (const paragraph of paragraphs) {
+		const note = notes.get(paragraph.footnoteId!) ?? [];
+		if (!isBlank(paragraph)) note.push(`<p>${renderText(paragraph)}</p>`);
+		notes.set(paragraph.footnoteId!, note);
+	}
+	return [
+		'<section class="footnotes">',
+		'<h2>Footnotes</h2>',
+		'<ol>',
+		...[...notes.values()].map((note) => `<li>${note.join('')}</li>`),
+		'</ol>',
+		'</section>'
+	];
+}
+
+/** Whether a paragraph has no text to show, counting suggested deletions. */
+function isBlank(paragraph: HtmlParagraph): boolean {
+	return !paragraph.elements.some((pe) => pe.textRun?.content.trim());
+}
+
+/**
+ * A paragraph's runs as HTML, with each anchor wrapped in `<mark>`. Anchor
+ * offsets count the plain text, where suggested deletions take no room: a
+ * deletion is marked when it falls inside an anchor, not at its edge.
+ */
+function renderText(paragraph: HtmlParagraph): string {
+	const cuts = paragraph.anchors.flatMap((anchor) => [anchor.start, anchor.end]);
+	const runs = paragraph.elements.flatMap((pe) => (pe.textRun ? [pe.textRun] : []));
+	const pieces: Array<{ run: TextRun; text: string; start: number; end: number }> = [];
+	let offset = 0;
+	runs.forEach((run, i) => {
+		if (isDeleted(run)) {
+			// The paragraph mark ends the last run; it isn't text.
+			const text = i === runs.length - 1 ? run.content.replace(/\n$/, '') : run.content;
+			pieces.push({ run, text, start: offset, end: offset });
+			return;
+		}
+		const end = Math.min(offset + run.content.length, paragraph.text.length);
+		const bounds = [offset, ...cuts.filter((cut) => cut > offset && cut < end), end];
+		for (let b = 1; b < bounds.length; b++) {
+			const [start, stop] = [bounds[b - 1], bounds[b]];
+			if (stop > start) {
+				const text = run.content.slice(start - offset, stop - offset);
+				pieces.push({ run, text, start, end: stop });
+			}
+		}
+		offset = end;
+	});
+
+	const points = paragraph.anchors.filter((anchor) => anchor.start === anchor.end);
+	const ranges = paragraph.anchors.filter((anchor) => anchor.start < anchor.end);
+	let html = '';
+	let open: JsonAnchor | undefined;
+	const closeMark = () => {
+		if (open) html += '</mark>';
+		open = undefined;
+	};
+	const emitPoints = (upTo: number) => {
+		while (points.length > 0 && points[0].start <= upTo) {
+			closeMark();
+			html += renderPoint(points.shift()!);
+		}
+	};
+	for (const piece of pieces) {
+		emitPoints(piece.start);
+		const anchor = ranges.find((range) =>
+			piece.start === piece.end
+				? range.start < piece.start && piece.start < range.end
+				: range.start <= piece.start && piece.end <= range.end
+		);
+		if (anchor !== open) {
+			closeMark();
+			if (anchor) html += `<mark data-thread="${escapeHtml(anchor.anchorId)}">`;
+			open = anchor;
+		}
+		html += renderRun(piece.run, piece.text);
+	}
+	closeMark();
+	emitPoints(Infinity);
+	return html;
+}
+
+function renderPoint(anchor: JsonAnchor): string {
+	const id = escapeHtml(anchor.anchorId);
+	return `<mark class="point" data-thread="${id}" title="Comment ${id}"></mark>`;
+}
+
+/** A run's text with its styling and, for a suggested edit, `<ins>` / `<del>`. */
+function renderRun(run: TextRun, text: string): string {
+	const style = run.textStyle ?? {};
+	let html = escapeText(text);
+	// Styling goes around the text only; whitespace-only runs stay bare.
+	if (text.trim()) {
+		if (!style.link?.url && isMonospaceFont(style.weightedFontFamily?.fontFamily)) {
+			html = `<code>${html}</code>`;
+		}
+		if (style.strikethrough) html = `<s>${html}</s>`;
+		if (style.italic) html = `<em>${html}</em>`;
+		if (style.bold) html = `<strong>${html}</strong>`;
+		// Only links that are safe to follow; others render as their text.
+		if (style.link?.url && /^(https?|mailto):/i.test(style.link.url)) {
+			html = `<a href="${escapeHtml(style.link.url)}">${html}</a>`;
+		}
+	}
+	if (isDeleted(run)) return `<del>${html}</del>`;
+	if (run.suggestedInsertionIds?.length) return `<ins>${html}</ins>`;
+	return html;
+}
+
+/**
+ * Whether a run is a suggested deletion, left out of the plain text. As in
+ * the markdown, deletion wins when a run is also a suggested insertion.
+ */
+function isDeleted(run: TextRun): boolean {
+	return !!run.suggestedDeletionIds?.length;
+}
+
+/** A thread card; `withQuote` adds the quoted text, for threads without a mark. */
+function renderThread(
+	thread: JsonThread,
+	options: CommentFormatOptions,
+	withQuote = false
+): string {
+	const id = escapeHtml(thread.anchorId);
+	const label = thread.resolved ? `${id} · resolved` : id;
+	const quote =
+		withQuote && thread.quotedText
+			? `<blockquote>${escapeText(thread.quotedText)}</blockquote>`
+			: '';
+	return [
+		`<section class="thread${thread.resolved ? ' resolved' : ''}" id="thread-${id}" data-thread="${id}" tabindex="0">`,
+		`<p class="thread-label">${label}</p>`,
+		quote,
+		...thread.comments.map((comment) => renderComment(comment, options)),
+		'</section>'
+	]
+		.filter((line) => line)
+		.join('\n');
+}
+
+function renderComment(comment: JsonComment, options: CommentFormatOptions): string {
+	const email = comment.authorEmail || options.authorEmails?.[comment.authorName] || '';
+	const when =
+		options.timestamps && comment.date
+			? formatTimestamp(comment.date, options.dateFormat, options.timeZone)
+			: '';
+	const meta = [email, when].filter((part) => part).map(escapeHtml).join(' · ');
+	return (
+		`<div class="comment${comment.isReply ? ' reply' : ''}">` +
+		`<p class="author"><strong>${escapeHtml(comment.authorName)}</strong>` +
+		(meta ? ` <span class="meta">${meta}</span>` : '') +
+		'</p>' +
+		`<p>${escapeHtml(comment.content).replace(/\n/g, '<br>')}</p>` +
+		'</div>'
+	);
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/** Escape document text; tabs become spaces and line breaks `<br>`. */
+function escapeText(text: string): string {
+	return escapeHtml(text).replace(/\t/g, ' ').replace(/[\v\n]/g, '<br>');
+}
+
+// The app's palette (Tailwind gray/blue), dark by default and light when the
+// reader's system asks for it.
+const STYLES = `
+:root {
+	color-scheme: dark;
+	--bg: #111827;
+	--panel: #1f2937;
+	--border: #374151;
+	--text: #f3f4f6;
+	--muted: #9ca3af;
+	--accent: #60a5fa;
+	--mark: rgba(250, 204, 21, 0.22);
+	--mark-active: rgba(250, 204, 21, 0.5);
+}
+@media (prefers-color-scheme: light) {
+	:root {
+		color-scheme: light;
+		--bg: #f9fafb;
+		--panel: #ffffff;
+		--border: #e5e7eb;
+		--text: #111827;
+		--muted: #6b7280;
+		--accent: #2563eb;
+		--mark: rgba(250, 204, 21, 0.35);
+		--mark-active: rgba(234, 179, 8, 0.65);
+	}
+}
+body { margin: 0; background: var(--bg); color: var(--text); font: 16px/1.6 system-ui, sans-serif; }
+.review { display: grid; grid-template-columns: minmax(0, 48rem) 20rem; gap: 2rem; max-width: 72rem; margin: 0 auto; padding: 2rem 1.5rem; }
+.document { background: var(--panel); border: 1px solid var(--border); border-radius: 0.5rem; padding: 2rem 2.5rem; }
+.subtitle { color: var(--muted); font-style: italic; }
+table { border-collapse: collapse; margin: 1rem 0; }
+td { border: 1px solid var(--border); padding: 0.25rem 0.5rem; vertical-align: top; }
+a { color: var(--accent); }
+code { font: 0.9em ui-monospace, monospace; }
+ins { text-decoration-color: var(--accent); }
+del { color: var(--muted); }
+mark { background: var(--mark); color: inherit; border-radius: 2px; cursor: pointer; }
+mark.point::after { content: '\\25C6'; color: var(--accent); font-size: 0.7em; padding: 0 0.1em; }
+mark.hover, mark.active { background: var(--mark-active); }
+.footnotes { border-top: 1px solid var(--border); margin-top: 2rem; color: var(--muted); font-size: 0.875rem; }
+.threads { position: relative; }
+.threads.aligned > * { position: absolute; left: 0; right: 0; }
+.thread { background: var(--panel); border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.75rem 1rem; margin-bottom: 0.75rem; font-size: 0.875rem; cursor: pointer; transition: border-color 0.15s, box-shadow 0.15s; }
+.thread.hover, .thread.active { border-color: var(--accent); box-shadow: 0 0 0 1px var(--accent); }
+.thread.resolved { opacity: 0.7; }
+.thread-label { color: var(--muted); font-size: 0.75rem; margin: 0; }
+.thread blockquote { margin: 0.25rem 0; padding-left: 0.5rem; border-left: 2px solid var(--border); color: var(--muted); }
+.comment p { margin: 0.25rem 0; }
+.comment.reply { border-top: 1px solid var(--border); margin-top: 0.5rem; padding-top: 0.25rem; }
+.meta { color: var(--muted); font-size: 0.75rem; }
+.unanchored h2 { font-size: 1rem; color: var(--muted); }
+@media (max-width: 64rem) { .review { grid-template-columns: minmax(0, 1fr); } }
+`;
+
+// Lays the threads out beside their first <mark> when the margin sits next
+// to the document, and links marks and threads by their data-thread id:
+// hovering one highlights both, clicking pins the highlight and scrolls the
+// other into view.
+const SCRIPT = `
+(() => {
+	const margin = document.querySelector('.threads');
+	const wide = matchMedia('(min-width: 64.01rem)');
+	const linked = (id) => document.querySelectorAll('[data-thread="' + id + '"]');
+	const mark = (id) => document.querySelector('mark[data-thread="' + id + '"]');
+	const highlight = (id, name, on) => linked(id).forEach((el) => el.classList.toggle(name, on));
+
+	function layout() {
+		margin.classList.toggle('aligned', wide.matches);
+		let bottom = 0;
+		for (const el of margin.children) {
+			el.style.top = '';
+			if (!wide.matches) continue;
+			const anchor = el.dataset.thread && mark(el.dataset.thread);
+			const at = anchor ? anchor.getBoundingClientRect().top - margin.getBoundingClientRect().top : 0;
+			const top = Math.max(at, bottom);
+			el.style.top = top + 'px';
+			bottom = top + el.offsetHeight + 12;
+		}
+		margin.style.minHeight = wide.matches ? bottom + 'px' : '';
+	}
+
+	let pinned = null;
+	document.addEventListener('mouseover', (e) => {
+		const el = e.target.closest('[data-thread]');
+		if (el) highlight(el.dataset.thread, 'hover', true);
+	});
+	document.addEventListener('mouseout', (e) => {
+		const el = e.target.closest('[data-thread]');
+		if (el) highlight(el.dataset.thread, 'hover', false);
+	});
+	document.addEventListener('click', (e) => {
+		const el = e.target.closest('[data-thread]');
+		if (pinned) highlight(pinned, 'active', false);
+		pinned = el && el.dataset.thread !== pinned ? el.dataset.thread : null;
+		if (!pinned) return;
+		highlight(pinned, 'active', true);
+		const partner = el.tagName === 'MARK' ? document.getElementById('thread-' + pinned) : mark(pinned);
+		if (partner) partner.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+	});
+	wide.addEventListener('change', layout);
+	addEventListener('resize', layout);
+	addEventListener('load', layout);
+	layout();
+})();
+`;
@@ -0,0 +1,292 @@
+/**
+ * Serializes a parsed document and its comment threads to a versioned JSON
+ * schema, for tools that want data rather than our markdown format.
+ * Anchor ids match the markdown output, and threads with recorded offsets
+ * are placed by the same routine (`isPositionedAt`, `claimRecordedRanges`),
+ * in table cells too. Threads without offsets are matched against each
+ * paragraph's plain text rather than its markdown, so where the markup
+ * splits their quote they can anchor here but not in the markdown.
+ */
+
+import type {
+	GoogleDocsDocument,
+	CommentThread,
+	Paragraph,
+	ParagraphElement,
+	StructuralElement
+} from '$lib/types/google';
+import {
+	claimAnchorRanges,
+	claimRecordedRanges,
+	collectFootnoteReferences,
+	hasAnchorOffsets,
+	isOrderedBullet,
+	isPositionedAt,
+	isSpanningThread,
+	renumberByDocumentOrder,
+	splitElementsAt,
+	threadMatchesFootnote,
+	threadMatchesParagraph
+} from '$lib/services/transformer';
+
+/** Bumped whenever a field is removed or changes meaning. */
+export const JSON_EXPORT_SCHEMA_VERSION = 1;
+
+export interface JsonExport {
+	schemaVersion: typeof JSON_EXPORT_SCHEMA_VERSION;
+	documentId: string;
+	title: string;
+	paragraphs: JsonParagraph[];
+	threads: JsonThread[];
+}
+
+export interface JsonParagraph {
+	/**
+	 * Index into the document body. Paragraphs inside a table share the
+	 * table's index (and carry `cell`), and footnote paragraphs take the
+	 * index of the paragraph referencing the footnote (and carry
+	 * `footnoteId`), matching `anchorParaIndex`.
+	 */
+	index: number;
+	/** Named style, e.g. `NORMAL_TEXT`, `HEADING_1`, `TITLE`. */
+	style: string;
+	/** Plain text without markdown; text in suggested deletions is left out. */
+	text: string;
+	list?: { listId: string; nestingLevel: number; ordered: boolean };
+	cell?: { row: number; column: number };
+	footnoteId?: string;
+	/**
+	 * Inline anchors as `[start, end)` offsets into `text`; point comments
+	 * have `start === end`.
+	 */
+	anchors: JsonAnchor[];
+}
+
+export interface JsonAnchor {
+	anchorId: string;
+	start: number;
+	end: number;
+	/** Set on later paragraphs of a range that spans several paragraphs. */
+	continuation?: true;
+}
+
+export interface JsonThread {
+	anchorId: string;
+	quotedText: string;
+	anchorParaIndex: number | null;
+	/** Paragraph where a multi-paragraph range ends, or null. */
+	anchorEndParaIndex: number | null;
+	/** Footnote holding the anchor, or null for body text. */
+	anchorFootnoteId: string | null;
+	resolved: boolean;
+	comments: JsonComment[];
+}
+
+export interface JsonComment {
+	authorName: string;
+	authorEmail: string;
+	/** ISO timestamp, or null when the source didn't record one. */
+	date: string | null;
+	content: string;
+	isReply: boolean;
+}
+
+/**
+ * Transform a document and its threads to pretty-printed JSON.
+ */
+export function transformToJson(doc: GoogleDocsDocument, threads: CommentThread[]): string {
+	return JSON.stringify(buildJsonExport(doc, threads), null, 2) + '\n';
+}
+
+/**
+ * Build the JSON export object. Threads are renumbered by document order, so
+ * `anchorId`s line up with `transformToMarkdown` for the same input.
+ */
+export function buildJsonExport(doc: GoogleDocsDocument, threads: CommentThread[]): JsonExport {
+	const orderedThreads = renumberByDocumentOrder(doc, threads);
+	const placed = new Set<string>();
+	const paragraphs: JsonParagraph[] = [];
+	// Placed threads whose range continues into later paragraphs, as in the
+	// markdown output: the earliest one marks each paragraph it covers.
+	let spanning: CommentThread[] = [];
+
+	const pushParagraph = (
+		paragraph: Paragraph,
+		index: number,
+		location: ExportParagraph['location'],
+		cellParagraph?: number
+	) => {
+		const text = extractPlainText(paragraph);
+		const inBody = !location.cell && location.footnoteId === undefined;
+		const candidates = orderedThreads.filter(
+			(thread) =>
+				!placed.has(thread.id) &&
+				thread.quotedText &&
+				!hasAnchorOffsets(thread) &&
+				(location.footnoteId !== undefined
+					? threadMatchesFootnote(thread, location.footnoteId, text)
+					: threadMatchesParagraph(thread, index, text))
+		);
+		const continued = inBody ? spanning[0] : undefined;
+		const continuation = continued
+			? [
+					{
+						start: 0,
+						end:
+							continued.anchorEndParaIndex === index && continued.anchorEndOffset !== undefined
+								? plainLength(splitElementsAt(paragraph.elements, continued.anchorEndOffset)[0])
+								: text.length,
+						anchorId: continued.anchorId,
+						threadId: continued.id
+					}
+				].filter((claim) => claim.end > 0)
+			: [];
+		const plainOffset = (offset: number) =>
+			Math.min(plainLength(splitElementsAt(paragraph.elements, offset)[0]), text.length);
+		const positioned = claimRecordedRanges(
+			orderedThreads.filter(
+				(thread) =>
+					location.footnoteId === undefined &&
+					!placed.has(thread.id) &&
+					isPositionedAt(thread, index, cellParagraph)
+			),
+			(offset) => (offset === undefined ? text.length : plainOffset(offset))
+		);
+		const claims = claimAnchorRanges(text, candidates, [...continuation, ...positioned]);
+		const newlyPlaced = orderedThreads.filter(
+			(thread) =>
+				!placed.has(thread.id) && claims.some((claim) => claim.threadId === thread.id)
+		);
+		for (const thread of newlyPlaced) {
+			placed.add(thread.id);
+			if (isSpanningThread(thread)) spanning.push(thread);
+		}
+
+		const bullet = paragraph.bullet;
+		paragraphs.push({
+			index,
+			style: paragraph.paragraphStyle?.namedStyleType ?? 'NORMAL_TEXT',
+			text,
+			...(bullet
+				? {
+						list: {
+							listId: bullet.listId,
+							nestingLevel: bullet.nestingLevel ?? 0,
+							ordered: isOrderedBullet(bullet, doc)
+						}
+					}
+				: {}),
+			...location,
+			anchors: claims.map(({ anchorId, start, end, threadId }) => ({
+				anchorId,
+				start,
+				end,
+				...(threadId === continued?.id ? { continuation: true as const } : {})
+			}))
+		});
+	};
+
+	for (const { paragraph, index, location, cellParagraph } of collectExportParagraphs(doc)) {
+		spanning = spanning.filter((thread) => thread.anchorEndParaIndex! >= index);
+		pushParagraph(paragraph, index, location, cellParagraph);
+	}
+
+	return {
+		schemaVersion: JSON_EXPORT_SCHEMA_VERSION,
+		documentId: doc.documentId,
+		title: doc.title,
+		paragraphs,
+		threads: orderedThreads.map((thread) => ({
+			anchorId: thread.anchorId,
+			quotedText: thread.quotedText,
+			anchorParaIndex: thread.anchorParaIndex ?? null,
+			anchorEndParaIndex: thread.anchorEndParaIndex ?? null,
+			anchorFootnoteId: thread.anchorFootnoteId ?? null,
+			resolved: thread.resolved,
+			comments: thread.comments.map((comment) => ({
+				authorName: comment.authorName,
+				authorEmail: comment.authorEmail,
+				date: comment.createdAt ?? null,
+				content: comment.content,
+				isReply: comment.isReply
+			}))
+		}))
+	};
+}
+
+/** A paragraph of the document and where `buildJsonExport` places it. */
+export interface ExportParagraph {
+	paragraph: Paragraph;
+	/** As `JsonParagraph.index`. */
+	index: number;
+	location: Pick<JsonParagraph, 'cell' | 'footnoteId'>;
+	/** A table paragraph's position in the table, as in `anchorCellParagraph`. */
+	cellParagraph?: number;
+}
+
+/**
+ * The document's paragraphs in the order of `JsonExport.paragraphs`: body
+ * paragraphs and table cells in reading order, then footnotes in reference
+ * order. Entry `i` is the source of `paragraphs[i]`, for renderers that
+ * want the runs behind the plain text.
+ */
+export function collectExportParagraphs(doc: GoogleDocsDocument): ExportParagraph[] {
+	const paragraphs: ExportParagraph[] = [];
+	doc.body.content.forEach((element, index) => {
+		if (element.paragraph) {
+			paragraphs.push({ paragraph: element.paragraph, index, location: {} });
+		} else if (element.table) {
+			let cellParagraph = 0;
+			element.table.tableRows.forEach((row, r) => {
+				row.tableCells.forEach((cell, c) => {
+					for (const paragraph of cellParagraphs(cell.content)) {
+						paragraphs.push({
+							paragraph,
+							index,
+							location: { cell: { row: r, column: c } },
+							cellParagraph: cellParagraph++
+						});
+					}
+				});
+			});
+		}
+	});
+
+	for (const { reference, index } of collectFootnoteReferences(doc.body.content)) {
+		const footnote = doc.footnotes?.[reference.footnoteId];
+		for (const paragraph of cellParagraphs(footnote?.content ?? [])) {
+			paragraphs.push({ paragraph, index, location: { footnoteId: reference.footnoteId } });
+		}
+	}
+	return paragraphs;
+}
+
+function extractPlainText(paragraph: Paragraph): string {
+	return plainText(paragraph.elements).replace(/\n$/, '');
+}
+
+function plainText(elements: ParagraphElement[]): string {
+	return elements
+		.map((pe) => (pe.textRun && !pe.textRun.suggestedDeletionIds?.length ? pe.textRun.content : ''))
+		.join('');
+}
+
+function plainLength(elements: ParagraphElement[]): number {
+	return plainText(elements).replace(/\n$/, '').length;
+}
+
+/**
+ * Paragraphs of a table cell or footnote in reading order, flattening nested
+ * tables.
+ */
+function cellParagraphs(content: StructuralElement[]): Paragraph[] {
+	return content.flatMap((element) => {
+		if (element.paragraph) return [element.paragraph];
+		if (element.table) {
+			return element.table.tableRows.flatMap((row) =>
+				row.tableCells.flatMap((cell) => cellParagraphs(cell.content))
+			);
+		}
+		return [];
+	});
+}
@@ -0,0 +1,303 @@
+/**
+ * Parses our markdown output (DESIGN.md format) back into body text and
+ * comment threads, so saved conversions can be post-processed, diffed and
+ * re-rendered without the original document.
+ */
+
+import type { CommentThread, ThreadComment } from '$lib/types/google';
+import { unescapeMarkdown } from '$lib/services/transformer';
+
+const UNANCHORED_HEADING = '## Unanchored comments';
+
+/**
+ * `> [c1] **Name** (email):` or `> [c1 resolved] **Name** (email):`. The
+ * ` (email)` part is omitted when no address is known, and an optional
+ * ` · <timestamp>` may precede the colon. Timestamps are display text in a
+ * user-chosen format, so they are accepted but not read back.
+ */
+const HEADER_RE = /^> \[(c\d+)( resolved)?\] \*\*(.*)\*\*(?: \(([^()]*)\))?(?: · .+)?:$/;
+
+/**
+ * The `^[cN]` suffix that turns a bracketed span into an anchor, or
+ * `^[cN cont.]` for a later paragraph of the same comment range. On its
+ * own, `^[cN]` marks a point comment.
+ */
+const ANCHOR_SUFFIX_RE = /^\^\[(c\d+)( cont\.)?\]/;
+
+export interface MarkdownParseIssue {
+	/** 1-based line number. */
+	line: number;
+	/** 1-based column number. */
+	column: number;
+	message: string;
+}
+
+export interface MarkdownParseOptions {
+	/**
+	 * Throw on the first malformed construct instead of recovering. Lenient
+	 * mode (the default) keeps going and reports what it skipped in `issues`.
+	 */
+	strict?: boolean;
+}
+
+export interface ParsedCommentMarkdown {
+	/**
+	 * The markdown with anchors reduced to their text and threads removed.
+	 * It stays markdown: the renderer's backslash escapes are kept.
+	 */
+	bodyText: string;
+	/**
+	 * Threads in order of first appearance. `quotedText` is the anchored span
+	 * as written in the markdown (inline formatting included) with the
+	 * renderer's backslash escapes undone, so it reads like a quote from the
+	 * document and renders again unchanged; it leaves out any `cont.`
+	 * continuations, and threads from `## Unanchored comments` have an empty
+	 * `quotedText`. Comment bodies are written unescaped and read back as
+	 * they are.
+	 */
+	threads: CommentThread[];
+	issues: MarkdownParseIssue[];
+}
+
+interface ThreadDraft {
+	thread: CommentThread;
+	/** Where the thread's first comment header appeared, for error reporting. */
+	line: number;
+	anchored: boolean;
+	unanchoredSection: boolean;
+}
+
+/**
+ * Parse markdown produced by `transformToMarkdown` back into threads.
+ */
+export function parseCommentMarkdown(
+	markdown: string,
+	options: MarkdownParseOptions = {}
+): ParsedCommentMarkdown {
+	const issues: MarkdownParseIssue[] = [];
+	const report = (line: number, column: number, message: string) => {
+		if (options.strict) {
+			throw new Error(`Line ${line}, column ${column}: ${message}`);
+		}
+		issues.push({ line, column, message });
+	};
+
+	const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+	const drafts = new Map<string, ThreadDraft>();
+	const anchorTexts = new Map<string, { text: string; line: number; column: number }>();
+	const body: string[] = [];
+	let inUnanchoredSection = false;
+
+	let i = 0;
+	while (i < lines.length) {
+		const line = lines[i];
+
+		if (line.startsWith('>')) {
+			// Collect the whole blockquote; a thread block always starts with
+			// a comment header.
+			const start = i;
+			while (i < lines.length && lines[i].startsWith('>')) i++;
+			const block = lines.slice(start, i);
+			if (!HEADER_RE.test(block[0])) {
+				report(start + 1, 1, 'Blockquote is not a comment thread (expected "> [cN] **Name** (email):")');
+				body.push(...block);
+				continue;
+			}
+			readThreadBlock(block, start, inUnanchoredSection, drafts, report);
+			continue;
+		}
+
+		if (line.trim() === UNANCHORED_HEADING) {
+			inUnanchoredSection = true;
+			i++;
+			continue;
+		}
+		if (inUnanchoredSection && line.startsWith('#')) {
+			inUnanchoredSection = false;
+		}
+
+		body.push(stripAnchors(line, i + 1, anchorTexts, report));
+		i++;
+	}
+
+	for (const [anchorId, anchor] of anchorTexts) {
+		const draft = drafts.get(anchorId);
+		if (!draft) {
+			report(anchor.line, anchor.column, `Anchor ${anchorId} has no comment thread`);
+			continue;
+		}
+		draft.thread.quotedText = unescapeMarkdown(anchor.text);
+		draft.anchored = true;
+	}
+
+	for (const [anchorId, draft] of drafts) {
+		if (!draft.anchored && !draft.unanchoredSection) {
+			report(
+				draft.line,
+				1,
+				`Thread ${anchorId} has no inline anchor and is outside "${UNANCHORED_HEADING}"`
+			);
+		}
+	}
+
+	let bodyText = body.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd();
+	bodyText = bodyText ? bodyText + '\n' : '';
+
+	return {
+		bodyText,
+		threads: [...drafts.values()].map((draft) => draft.thread),
+		issues
+	};
+}
+
+/**
+ * Read one thread blockquote. A bare `>` separates comments only when the
+ * next line is a header; otherwise it is a blank line inside a comment body.
+ */
+function readThreadBlock(
+	block: string[],
+	startIndex: number,
+	inUnanchoredSection: boolean,
+	drafts: Map<string, ThreadDraft>,
+	report: (line: number, column: number, message: string) => void
+): void {
+	let current: ThreadComment | null = null;
+	let pendingBlank = 0;
+
+	for (let j = 0; j < block.length; j++) {
+		const raw = block[j];
+		const lineNumber = startIndex + j + 1;
+		const header = HEADER_RE.exec(raw);
+
+		if (header) {
+			const [, anchorId, resolved, authorName, authorEmail] = header;
+			let draft = drafts.get(anchorId);
+			if (!draft) {
+				draft = {
+					thread: {
+						id: anchorId,
+						anchorId,
+						quotedText: '',
+						resolved: !!resolved,
+						comments: []
+					},
+					line: lineNumber,
+					anchored: false,
+					unanchoredSection: inUnanchoredSection
+				};
+				drafts.set(anchorId, draft);
+			} else if (draft.thread.resolved !== !!resolved) {
+				report(lineNumber, 4, `Thread ${anchorId} is marked resolved on only some comments`);
+			}
+			current = {
+				authorName,
+				authorEmail: authorEmail ?? '',
+				content: '',
+				isReply: draft.thread.comments.length > 0
+			};
+			draft.thread.comments.push(current);
+			pendingBlank = 0;
+			continue;
+		}
+
+		if (/^> \[c\d+/.test(raw)) {
+			report(lineNumber, 3, 'Malformed comment header (expected "[cN] **Name** (email):")');
+		}
+
+		// Undo the escape the renderer puts on header-like content lines.
+		const text = (raw.startsWith('> ') ? raw.slice(2) : raw.slice(1)).replace(/^\\\[(?=c\d)/, '[');
+		if (!current) continue;
+		if (text === '') {
+			// Blank lines only count once more body text follows; a blank
+			// right before the next header is the separator.
+			if (current.content) pendingBlank++;
+			continue;
+		}
+		current.content += current.content ? '\n'.repeat(pendingBlank + 1) + text : text;
+		pendingBlank = 0;
+	}
+}
+
+/**
+ * Replace every `[text]^[cN]` in a line with `text`, recording each anchor's
+ * text. Brackets are matched with a stack so links and other bracketed
+ * markdown inside an anchor survive intact. `[text]^[cN cont.]` is unwrapped
+ * the same way but only checked against an earlier opening anchor of cN. A
+ * bare `^[cN]` is removed and recorded with empty text.
+ */
+function stripAnchors(
+	line: string,
+	lineNumber: number,
+	anchorTexts: Map<string, { text: string; line: number; column: number }>,
+	report: (line: number, column: number, message: string) => void
+): string {
+	if (!line.includes('^[')) return line;
+
+	// Offsets of the anchors to unwrap, resolved first and applied after.
+	const spans: Array<{
+		open: number;
+		close: number;
+		end: number;
+		anchorId: string;
+		continued: boolean;
+	}> = [];
+	const stack: number[] = [];
+
+	for (let k = 0; k < line.length; k++) {
+		const ch = line[k];
+		if (ch === '\\') {
+			k++;
+			continue;
+		}
+		if (ch === '^') {
+			// A suffix not consumed by a closing bracket: a point comment.
+			const point = ANCHOR_SUFFIX_RE.exec(line.slice(k));
+			if (point && point[2] === undefined) {
+				spans.push({
+					open: k,
+					close: k,
+					end: k + point[0].length,
+					anchorId: point[1],
+					continued: false
+				});
+				k += point[0].length - 1;
+			}
+		} else if (ch === '[') {
+			stack.push(k);
+		} else if (ch === ']') {
+			const open = stack.pop();
+			const suffix = ANCHOR_SUFFIX_RE.exec(line.slice(k + 1));
+			if (open === undefined || !suffix) continue;
+			spans.push({
+				open,
+				close: k,
+				end: k + 1 + suffix[0].length,
+				anchorId: suffix[1],
+				continued: suffix[2] !== undefined
+			});
+			k += suffix[0].length;
+		}
+	}
+
+	let out = '';
+	let cursor = 0;
+	for (const span of spans.sort((a, b) => a.open - b.open)) {
+		if (span.open < cursor) {
+			report(lineNumber, span.open + 1, `Anchor ${span.anchorId} is nested inside another anchor`);
+			continue;
+		}
+		const text = span.open === span.close ? '' : line.slice(span.open + 1, span.close);
+		if (span.continued) {
+			if (!anchorTexts.has(span.anchorId)) {
+				report(lineNumber, span.open + 1, `Continuation of ${span.anchorId} has no opening anchor`);
+			}
+		} else if (anchorTexts.has(span.anchorId)) {
+			report(lineNumber, span.open + 1, `Duplicate anchor ${span.anchorId}`);
+		} else {
+			anchorTexts.set(span.anchorId, { text, line: lineNumber, column: span.open + 1 });
+		}
+		out += line.slice(cursor, span.open) + text;
+		cursor = span.end;
+	}
+	return out + line.slice(cursor);
+}
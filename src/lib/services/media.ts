@@ -0,0 +1,90 @@
+/**
+ * Image rendering and packaging for converted documents.
+ *
+ * Images render as `![alt](media/image1.png)` pointing at their path inside
+ * the source .docx. Callers that need a self-contained result either bundle
+ * the markdown with the image files in a zip, or inline the images as
+ * `data:` URIs.
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+import type { InlineObject } from '$lib/types/google';
+
+const MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+	svg: 'image/svg+xml',
+	webp: 'image/webp',
+	tif: 'image/tiff',
+	tiff: 'image/tiff',
+	emf: 'image/emf',
+	wmf: 'image/wmf'
+};
+
+/**
+ * Markdown for an inline image: alt text from the object's description,
+ * falling back to its title, and the title as the link title when both are
+ * set. Objects without an image source render as nothing.
+ */
+export function formatImageMarkdown(object: InlineObject | undefined): string {
+	const embedded = object?.inlineObjectProperties.embeddedObject;
+	const src = embedded?.imageProperties?.contentUri;
+	if (!embedded || !src) return '';
+
+	const description = embedded.description?.trim() ?? '';
+	const title = embedded.title?.trim() ?? '';
+	const alt = (description || title).replace(/\s+/g, ' ').replace(/[[\]\\]/g, '\\$&');
+	const titlePart = description && title ? ` "${title.replace(/["\\]/g, '\\$&')}"` : '';
+	return `![${alt}](${src.replace(/ /g, '%20')}${titlePart})`;
+}
+
+/** MIME type for an image path, from its extension. */
+export function mediaMimeType(path: string): string {
+	const ext = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+	return MIME_TYPES[ext] ?? 'application/octet-stream';
+}
+
+/**
+ * Replace each `](path` image reference whose path is a key of `media` with a
+ * `data:` URI of the file, for single-file output.
+ */
+export function embedMediaAsDataUris(
+	markdown: string,
+	media: Record<string, Uint8Array>
+): string {
+	let out = markdown;
+	for (const [path, bytes] of Object.entries(media)) {
+		const uri = `data:${mediaMimeType(path)};base64,${toBase64(bytes)}`;
+		out = out.split(`](${path.replace(/ /g, '%20')}`).join(`](${uri}`);
+	}
+	return out;
+}
+
+/**
+ * Zip the markdown (as `fileName`) together with its image files, stored at
+ * the same relative paths the markdown links to.
+ */
+export function bundleMarkdownWithMedia(
+	markdown: string,
+	fileName: string,
+	media: Record<string, Uint8Array>
+): Uint8Array<ArrayBuffer> {
+	const files: Record<string, Uint8Array> = { ...media };
+	files[fileName] = strToU8(markdown);
+	// zipSync always allocates a plain ArrayBuffer, so the result is a valid BlobPart.
+	return zipSync(files) as Uint8Array<ArrayBuffer>;
+}
+
+function toBase64(bytes: Uint8Array): string {
+	// btoa takes a binary string; build it in chunks to stay under the
+	// engine's argument limit for String.fromCharCode.
+	let binary = '';
+	const chunkSize = 0x8000;
+	for (let i = 0; i < bytes.length; i += chunkSize) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+	}
+	return btoa(binary);
+}
@@ -12,9 +12,24 @@ import type {
 	ParagraphElement,
 	CommentThread,
 	TextStyle,
-	StructuralElement
+	StructuralElement,
+	Table,
+	TextRun,
+	ThreadComment,
+	Suggestion,
+	Bullet,
+	FootnoteReference,
+	InlineObject
 } from '$lib/types/google';
-import { estimatePages, truncateByPageRange } from '$lib/utils/pagination';
+import { formatImageMarkdown } from '$lib/services/media';
+import {
+	estimatePages,
+	getCharsPerPage,
+	truncateByPageRange,
+	type PageStrategy
+} from '$lib/utils/pagination';
+import { getOutline, truncateBySections, type OutlineEntry } from '$lib/utils/sections';
+import { formatTimestamp } from '$lib/utils/time';
 
 /** Map Google Docs heading styles to markdown prefix */
 const HEADING_MAP: Record<string, string> = {
@@ -27,37 +42,275 @@ const HEADING_MAP: Record<string, string> = {
 	HEADING_5: '###### ',
 };
 
+/** Inline delimiters for suggested edits (CriticMarkup-style). */
+const SUGGESTION_DELIMITERS: Record<Suggestion['kind'], [string, string]> = {
+	insertion: ['{++', '++}'],
+	deletion: ['{--', '--}']
+};
+
+/**
+ * The suggestion a run belongs to, if any. Deletion wins when a run carries
+ * both (text inserted by one reviewer and struck by another is gone from the
+ * accepted document).
+ */
+function getRunSuggestion(
+	run: TextRun
+): { kind: Suggestion['kind']; id: string } | undefined {
+	const deletionId = run.suggestedDeletionIds?.[0];
+	if (deletionId !== undefined) return { kind: 'deletion', id: deletionId };
+	const insertionId = run.suggestedInsertionIds?.[0];
+	if (insertionId !== undefined) return { kind: 'insertion', id: insertionId };
+	return undefined;
+}
+
 /**
- * Extract text content from paragraph elements with markdown formatting
+ * Which run styles beyond bold, italic, strikethrough and links get markup.
+ * A style that is switched off renders as plain text.
  */
-export function extractTextContent(elements: ParagraphElement[]): string {
-	return elements
-		.map((element) => {
-			if (!element.textRun) return '';
+export interface StyleProfile {
+	/** Underlined runs as `<u>…</u>`. */
+	underline: boolean;
+	/** Runs in a monospace font (Courier, Consolas, …) as `` `code` ``. */
+	monospace: boolean;
+	/** Superscript and subscript runs as `<sup>…</sup>` / `<sub>…</sub>`. */
+	scripts: boolean;
+	/** Highlighted or shaded runs as `==mark==`. */
+	highlight: boolean;
+}
 
-			let text = element.textRun.content;
-			const style = element.textRun.textStyle;
+export const DEFAULT_STYLE_PROFILE: StyleProfile = {
+	underline: true,
+	monospace: true,
+	scripts: true,
+	highlight: true
+};
 
-			if (style) {
-				text = applyTextStyle(text, style);
-			}
+/** Document-wide inputs to rendering a paragraph's runs. */
+export interface InlineRenderContext {
+	/** The document's `inlineObjects` map, for rendering images. */
+	inlineObjects?: Record<string, InlineObject>;
+	/** Defaults to `DEFAULT_STYLE_PROFILE`. */
+	styles?: StyleProfile;
+	/**
+	 * Whether the text begins a markdown line, so a block marker at its start
+	 * (`#`, `>`, `- `, `1. `) must be escaped. Defaults to true.
+	 */
+	lineStart?: boolean;
+	/**
+	 * Markup for a soft line break (`\v`). Defaults to a markdown hard break,
+	 * a backslash ending the line; a heading or table cell must stay on one
+	 * line and passes its own.
+	 */
+	lineBreak?: string;
+	/**
+	 * Whether comments are written as CriticMarkup, so the text must not open
+	 * a highlight, comment or substitution either (see `escapeMarkdown`).
+	 */
+	criticMarkup?: boolean;
+}
+
+const HARD_BREAK = '\\\n';
 
-			return text;
+/**
+ * Backslash-escape document text so markdown (and this format's anchor,
+ * suggestion and style syntax) reads it literally: inline markup characters
+ * everywhere, and block markers at the start of each line. The first line
+ * counts as a line start only when `lineStart` is set. With `criticMarkup`,
+ * the `{==`, `{>>` and `{~~` openers are escaped as well.
+ */
+export function escapeMarkdown(text: string, lineStart = false, criticMarkup = false): string {
+	const inline = criticMarkup ? /[\\`*_[\]<~]|\{(?=[+\-=>~])/g : /[\\`*_[\]<~]|\{(?=[+-])/g;
+	return text
+		.split('\n')
+		.map((line, i) => {
+			const escaped = line.replace(inline, '\\$&');
+			if (i === 0 && !lineStart) return escaped;
+			return escaped
+				.replace(/^(\s*)(#{1,6}(?=\s|$)|>|[-+](?=\s|$)|-(?=[-\s]*$))/, '$1\\$2')
+				.replace(/^(\s*\d{1,9})([.)])(?=\s|$)/, '$1\\$2');
 		})
+		.join('\n');
+}
+
+/**
+ * Render the text of a run: escaped, with tabs as spaces (markdown has no
+ * tab stops, and a leading tab would open a code block) and soft line breaks
+ * as `lineBreak`. Text after a break that ends the line is a line start.
+ */
+function renderRunText(
+	text: string,
+	lineStart: boolean,
+	lineBreak = HARD_BREAK,
+	criticMarkup = false
+): string {
+	return text
+		.replace(/\t/g, ' ')
+		.split('\v')
+		.map((line, i) =>
+			escapeMarkdown(line, i === 0 ? lineStart : lineBreak.endsWith('\n'), criticMarkup)
+		)
+		.join(lineBreak);
+}
+
+// A rendered image, as the adapter also records it in a comment's quote.
+const IMAGE_MARKDOWN_RE = /(!\[(?:\\.|[^\]\\])*\]\([^)\s]*(?: "(?:\\.|[^"\\])*")?\))/;
+
+/**
+ * A thread as matched against rendered text: its quote escaped the way the
+ * document text is, leaving image markdown as rendered.
+ */
+function withRenderedQuote(thread: CommentThread, criticMarkup = false): CommentThread {
+	if (!thread.quotedText) return thread;
+	const quotedText = thread.quotedText
+		.split(IMAGE_MARKDOWN_RE)
+		.map((part, i) =>
+			i % 2 === 1 ? part : renderRunText(part, false, HARD_BREAK, criticMarkup)
+		)
+		.join('');
+	return { ...thread, quotedText };
+}
+
+/**
+ * Undo `escapeMarkdown` on rendered text, e.g. an anchored span read back
+ * from our markdown: the backslash before escaped punctuation is dropped,
+ * and image markdown is left as rendered.
+ */
+export function unescapeMarkdown(text: string): string {
+	return text
+		.split(IMAGE_MARKDOWN_RE)
+		.map((part, i) => (i % 2 === 1 ? part : part.replace(/\\([\\`*_[\]<~{#>+\-.])/g, '$1')))
 		.join('');
 }
 
+/**
+ * Extract text content from paragraph elements with markdown formatting.
+ * Consecutive runs belonging to the same suggested edit are wrapped in a
+ * single `{++…++}` / `{--…--}` marker. Images render from the context's
+ * `inlineObjects` as `![alt](src)`.
+ */
+export function extractTextContent(
+	elements: ParagraphElement[],
+	context: InlineRenderContext = {}
+): string {
+	let out = '';
+	let openKey: string | null = null;
+	let closing = '';
+	const styles = context.styles ?? DEFAULT_STYLE_PROFILE;
+	const lineStart = context.lineStart ?? true;
+
+	for (const element of elements) {
+		if (element.footnoteReference) {
+			// A reference mark is never part of a suggestion group.
+			out += closing;
+			closing = '';
+			openKey = null;
+			out += `[^${getFootnoteLabel(element.footnoteReference)}]`;
+			continue;
+		}
+		if (element.inlineObjectElement) {
+			out += closing;
+			closing = '';
+			openKey = null;
+			out += formatImageMarkdown(
+				context.inlineObjects?.[element.inlineObjectElement.inlineObjectId]
+			);
+			continue;
+		}
+		if (!element.textRun) continue;
+
+		const style = element.textRun.textStyle;
+		// Code spans take their text literally, and can't hold a line break;
+		// everything else is escaped.
+		let text = style && isCodeRun(style, styles)
+			? element.textRun.content.replace(/\v/g, ' ')
+			: renderRunText(
+					element.textRun.content,
+					out.trim() ? out.endsWith('\n') : lineStart,
+					context.lineBreak,
+					context.criticMarkup
+				);
+
+		if (style) {
+			text = applyTextStyle(text, style, styles);
+		}
+
+		const suggestion = getRunSuggestion(element.textRun);
+		const key = suggestion ? `${suggestion.kind}:${suggestion.id}` : null;
+		if (key !== openKey) {
+			out += closing;
+			closing = '';
+			if (suggestion) {
+				const [open, close] = SUGGESTION_DELIMITERS[suggestion.kind];
+				out += open;
+				closing = close;
+			}
+			openKey = key;
+		}
+		out += text;
+	}
+
+	return out + closing;
+}
+
+/** The markdown footnote label for a reference: its mark, else its id. */
+function getFootnoteLabel(reference: FootnoteReference): string {
+	return reference.footnoteNumber || reference.footnoteId;
+}
+
+/**
+ * Footnotes referenced from `content`, in reference order, each with the
+ * body index of its first referencing element (tables report their own
+ * index for references inside cells).
+ */
+export function collectFootnoteReferences(
+	content: StructuralElement[]
+): Array<{ reference: FootnoteReference; index: number }> {
+	const refs = new Map<string, { reference: FootnoteReference; index: number }>();
+	const visit = (elements: StructuralElement[], tableIndex: number | undefined) => {
+		elements.forEach((element, i) => {
+			const index = tableIndex ?? i;
+			if (element.paragraph) {
+				for (const pe of element.paragraph.elements) {
+					const reference = pe.footnoteReference;
+					if (reference && !refs.has(reference.footnoteId)) {
+						refs.set(reference.footnoteId, { reference, index });
+					}
+				}
+			} else if (element.table) {
+				for (const row of element.table.tableRows) {
+					for (const cell of row.tableCells) visit(cell.content, index);
+				}
+			}
+		});
+	};
+	visit(content, undefined);
+	return [...refs.values()];
+}
+
 /**
  * Apply markdown formatting based on text style
  */
-function applyTextStyle(text: string, style: TextStyle): string {
+function applyTextStyle(text: string, style: TextStyle, profile: StyleProfile): string {
+	// Markers go around the text itself, with surrounding whitespace left
+	// outside: `** bold**` doesn't render as bold.
+	const [, lead, core, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+	if (!core) return text;
+	text = core;
+
 	// Handle links first (they may also have other styles)
 	if (style.link?.url) {
-		text = `[${text}](${style.link.url})`;
-		return text;
+		return `${lead}[${text}](${style.link.url})${trail}`;
 	}
 
-	// Apply formatting - order matters (inner → outer): ~~ → _ → **
+	// Apply formatting - order matters (inner → outer):
+	// code → sup/sub → ~~ → _ → ** → <u> → ==
+	if (isCodeRun(style, profile)) {
+		text = formatCodeSpan(text);
+	}
+	if (profile.scripts && style.baselineOffset) {
+		const tag = style.baselineOffset === 'SUPERSCRIPT' ? 'sup' : 'sub';
+		text = `<${tag}>${text}</${tag}>`;
+	}
 	if (style.strikethrough) {
 		text = `~~${text}~~`;
 	}
@@ -67,8 +320,42 @@ function applyTextStyle(text: string, style: TextStyle): string {
 	if (style.bold) {
 		text = `**${text}**`;
 	}
+	if (profile.underline && style.underline) {
+		text = `<u>${text}</u>`;
+	}
+	if (profile.highlight && style.backgroundColor) {
+		text = `==${text}==`;
+	}
+
+	return lead + text + trail;
+}
+
+const MONOSPACE_FONT_RE =
+	/mono|courier|consolas|menlo|monaco|inconsolata|lucida console|fira code|cascadia code|source code/i;
+
+/** Whether a run renders as a code span under the profile. */
+function isCodeRun(style: TextStyle, profile: StyleProfile): boolean {
+	return (
+		profile.monospace &&
+		!style.link?.url &&
+		isMonospaceFont(style.weightedFontFamily?.fontFamily)
+	);
+}
+
+/** Whether a font family is a fixed-width font, judged by its name. */
+export function isMonospaceFont(fontFamily: string | undefined): boolean {
+	return fontFamily !== undefined && MONOSPACE_FONT_RE.test(fontFamily);
+}
 
-	return text;
+/**
+ * Wrap text in a code span, fenced with one more backtick than the longest
+ * run inside it (and padded when it starts or ends with one).
+ */
+function formatCodeSpan(text: string): string {
+	const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+	const fence = '`'.repeat(longest + 1);
+	const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+	return `${fence}${pad}${text}${pad}${fence}`;
 }
 
 /**
@@ -81,39 +368,326 @@ function getListPrefix(
 	const bullet = paragraph.bullet;
 	if (!bullet) return '';
 
-	const nestingLevel = bullet.nestingLevel || 0;
-	const padding = '  '.repeat(nestingLevel);
+	const padding = '  '.repeat(bullet.nestingLevel || 0);
+	return isOrderedBullet(bullet, doc) ? `${padding}1. ` : `${padding}- `;
+}
 
-	// Look up ordered vs unordered from the doc's lists metadata
+/**
+ * Whether a bullet belongs to a numbered list, judged from the glyph format
+ * of its nesting level in the doc's lists metadata.
+ */
+export function isOrderedBullet(bullet: Bullet, doc: GoogleDocsDocument): boolean {
+	const nestingLevel = bullet.nestingLevel || 0;
 	const listDetails = doc.lists?.[bullet.listId];
 	const levels = listDetails?.listProperties?.nestingLevels || [];
 	const glyphFormat = levels[nestingLevel]?.glyphFormat || '';
 
 	// Ordered lists use formats like "%0." or "[%0]"
-	const isOrdered = glyphFormat.includes('%') &&
+	return glyphFormat.includes('%') &&
 		(glyphFormat.includes('.') || glyphFormat.startsWith('['));
+}
 
-	return isOrdered ? `${padding}1. ` : `${padding}- `;
+export interface CommentFormatOptions {
+	/**
+	 * Append each comment's timestamp to its header, e.g.
+	 * `> [c1] **Sophia** (sophia@x.com) · 2026-03-04 14:02:`. Comments
+	 * without a recorded date keep the plain header.
+	 */
+	timestamps?: boolean;
+	/** Token pattern for timestamps (see `formatTimestamp`). */
+	dateFormat?: string;
+	/** IANA zone timestamps are shown in; defaults to UTC. */
+	timeZone?: string;
+	/**
+	 * Fallback emails keyed by author name, used when the document itself
+	 * doesn't know a commenter's address.
+	 */
+	authorEmails?: Record<string, string>;
 }
 
 /**
  * Format a comment thread as a blockquote
  */
-export function formatCommentThread(thread: CommentThread): string {
+export function formatCommentThread(
+	thread: CommentThread,
+	options: CommentFormatOptions = {}
+): string {
 	const anchorLabel = thread.resolved ? `${thread.anchorId} resolved` : thread.anchorId;
 
 	return thread.comments
 		.map((comment) => {
-			const header = `> [${anchorLabel}] **${comment.authorName}** (${comment.authorEmail}):`;
+			const header = `> [${anchorLabel}] ${formatCommentHeader(comment, options)}:`;
 			const content = comment.content
 				.split('\n')
-				.map((line) => `> ${line}`)
+				// A line that looks like a `[cN]` header is escaped so it
+				// can't be read as the start of another comment.
+				.map((line) => `> ${line.replace(/^\[(?=c\d)/, '\\[')}`)
 				.join('\n');
 			return `${header}\n${content}`;
 		})
 		.join('\n>\n');
 }
 
+/** `**Sophia** (sophia@x.com) · 2026-03-04 14:02`, as far as it is known. */
+function formatCommentHeader(comment: ThreadComment, options: CommentFormatOptions): string {
+	const email = comment.authorEmail || options.authorEmails?.[comment.authorName] || '';
+	const contact = email ? ` (${email})` : '';
+	return `**${comment.authorName}**${contact}${formatCommentStamp(comment, options)}`;
+}
+
+/** ` · 2026-03-04 14:02` when timestamps are on and the comment is dated. */
+function formatCommentStamp(comment: ThreadComment, options: CommentFormatOptions): string {
+	const when =
+		options.timestamps && comment.createdAt
+			? formatTimestamp(comment.createdAt, options.dateFormat, options.timeZone)
+			: '';
+	return when ? ` · ${when}` : '';
+}
+
+/**
+ * Format a comment thread as the body of a CriticMarkup comment: each
+ * comment as `Author: text` on one line, replies following the opening
+ * comment after ` — `. Closing delimiters in the text are escaped.
+ */
+export function formatCriticComment(
+	thread: CommentThread,
+	options: CommentFormatOptions = {}
+): string {
+	const text = thread.comments
+		.map((comment) => {
+			const content = comment.content.replace(/\s*\n\s*/g, ' ').trim();
+			return `${comment.authorName}${formatCommentStamp(comment, options)}: ${content}`;
+		})
+		.join(' — ');
+	return escapeCriticDelimiters(thread.resolved ? `(resolved) ${text}` : text);
+}
+
+/**
+ * Escape CriticMarkup closing delimiters (`==}`, `<<}`) so text inside a
+ * highlight or comment can't end it early. CriticMarkup has no escapes of
+ * its own; a backslash before the brace breaks the delimiter and renders as
+ * a plain `}`.
+ */
+function escapeCriticDelimiters(text: string): string {
+	return text.replace(/(==|<<)\}/g, '$1\\}');
+}
+
+/**
+ * Format a comment thread as a Pandoc/GFM footnote definition: the opening
+ * comment on the `[^c1]:` line, each reply (and any further line) indented
+ * four spaces so it stays inside the footnote.
+ */
+export function formatFootnoteThread(
+	thread: CommentThread,
+	options: CommentFormatOptions = {}
+): string {
+	const lines = thread.comments.flatMap((comment, index) => {
+		const [first, ...rest] = comment.content.split('\n');
+		return [
+			...(index > 0 ? [''] : []),
+			`${formatCommentHeader(comment, options)}: ${first}`,
+			...rest
+		];
+	});
+	const resolved = thread.resolved ? '_Resolved._ ' : '';
+	return [
+		`[^${thread.anchorId}]: ${resolved}${lines[0]}`,
+		...lines.slice(1).map((line) => (line ? `    ${line}` : ''))
+	].join('\n');
+}
+
+/**
+ * Output formats: comments as `[text]^[c1]` anchors with blockquote
+ * threads (DESIGN.md), as CriticMarkup `{==text==}{>>comment<<}`, or as
+ * Pandoc footnotes `text[^c1]`.
+ */
+export type OutputFormat = 'markdown' | 'criticmarkup' | 'footnotes';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'criticmarkup', 'footnotes'];
+
+/**
+ * Writes one output format's comment markup. Every format places anchors by
+ * the same claims (`claimAnchorRanges`) and renders the body text alike.
+ */
+interface CommentRenderer {
+	/** Mark a claimed span of rendered text; `text` is empty for a point comment. */
+	anchor(text: string, claim: AnchorClaim): string;
+	/** Block placed after the element where a thread's range ends, or `''`. */
+	thread(thread: CommentThread): string;
+	/** Entry for a thread in the `## Unanchored comments` section. */
+	unanchored(thread: CommentThread): string;
+}
+
+function createCommentRenderer(
+	format: OutputFormat,
+	threads: CommentThread[],
+	options: CommentFormatOptions
+): CommentRenderer {
+	if (format === 'criticmarkup') {
+		const threadsById = new Map(threads.map((thread) => [thread.id, thread]));
+		const comment = (thread: CommentThread) => `{>>${formatCriticComment(thread, options)}<<}`;
+		return {
+			// The comment follows the first span of its range; continuations
+			// are highlighted only.
+			anchor(text, claim) {
+				const thread = threadsById.get(claim.threadId);
+				const highlight = text ? `{==${escapeCriticDelimiters(text)}==}` : '';
+				return thread && !claim.continued ? highlight + comment(thread) : highlight;
+			},
+			thread: () => '',
+			unanchored(thread) {
+				const quote = thread.quotedText
+					? `{==${escapeCriticDelimiters(thread.quotedText)}==}`
+					: '';
+				return `- ${quote}${comment(thread)}`;
+			}
+		};
+	}
+	if (format === 'footnotes') {
+		// The reference follows the first span of the range; the text itself
+		// stays unmarked. Unanchored threads keep the blockquote layout, as a
+		// definition without a reference would be dropped.
+		return {
+			anchor: (text, claim) => (claim.continued ? text : `${text}[^${claim.anchorId}]`),
+			thread: (thread) => formatFootnoteThread(thread, options),
+			unanchored: (thread) => formatCommentThread(thread, options)
+		};
+	}
+	return {
+		anchor: (text, claim) =>
+			text ? `[${text}]^[${claim.anchorId}]` : `^[${claim.anchorId}]`,
+		thread: (thread) => formatCommentThread(thread, options),
+		unanchored: (thread) => formatCommentThread(thread, options)
+	};
+}
+
+/**
+ * Render every cell of a table as single-line markdown. A GFM table row must
+ * stay on one line, so multi-paragraph cells are joined with `<br>`; nested
+ * tables (which GFM cannot express) are flattened into the enclosing cell.
+ * `renderParagraph` renders each cell paragraph, given its position among the
+ * table's paragraphs in reading order (as in `anchorCellParagraph`).
+ */
+function extractCellTexts(
+	table: Table,
+	renderParagraph: (paragraph: Paragraph, cellParagraph: number) => string,
+	counter = { count: 0 }
+): string[][] {
+	return table.tableRows.map((row) =>
+		row.tableCells.map((cell) => extractCellText(cell.content, renderParagraph, counter))
+	);
+}
+
+function extractCellText(
+	content: StructuralElement[],
+	renderParagraph: (paragraph: Paragraph, cellParagraph: number) => string,
+	counter: { count: number }
+): string {
+	const parts: string[] = [];
+	for (const element of content) {
+		if (element.paragraph) {
+			const text = renderParagraph(element.paragraph, counter.count++);
+			if (text) parts.push(text);
+		} else if (element.table) {
+			for (const row of extractCellTexts(element.table, renderParagraph, counter)) {
+				parts.push(...row.filter((cell) => cell));
+			}
+		}
+	}
+	return parts.join('<br>');
+}
+
+/** A GFM cell holds no block markup, so nothing counts as a line start. */
+function getCellContext(context: InlineRenderContext): InlineRenderContext {
+	return { ...context, lineStart: false, lineBreak: '<br>' };
+}
+
+/**
+ * Text used to decide which threads belong to a body element: the paragraph's
+ * rendered text, or every cell of a table joined by newlines (so a quote can
+ * never straddle two cells).
+ */
+function getElementMatchText(element: StructuralElement, context: InlineRenderContext): string {
+	if (element.paragraph) {
+		return extractTextContent(element.paragraph.elements, context).replace(/\n$/, '');
+	}
+	if (element.table) {
+		const cellContext = getCellContext(context);
+		return extractCellTexts(element.table, (paragraph) =>
+			extractTextContent(paragraph.elements, cellContext).replace(/\n$/, '').trim()
+		)
+			.flat()
+			.join('\n');
+	}
+	return '';
+}
+
+/**
+ * Render a table as a GFM pipe table. The first row becomes the header row
+ * (Docs has no header-row concept, and GFM requires one). Threads with
+ * recorded offsets are placed in their cell paragraph as in a body
+ * paragraph; the others are offered to each cell paragraph in reading order
+ * and anchor in the first where `insertAnchors` can place them.
+ *
+ * @returns the table lines plus the ids of threads that got an inline anchor.
+ */
+function renderTable(
+	table: Table,
+	tableIndex: number,
+	threads: CommentThread[],
+	renderer: CommentRenderer,
+	context: InlineRenderContext
+): { lines: string[]; anchored: Set<string> } {
+	const anchored = new Set<string>();
+	let remaining = threads;
+	const cellContext = getCellContext(context);
+
+	const rows = extractCellTexts(table, (paragraph, cellParagraph) => {
+		const positioned = remaining.filter((thread) =>
+			isPositionedAt(thread, tableIndex, cellParagraph)
+		);
+		const { text: rawText, positions } = renderWithCuts(
+			paragraph.elements,
+			getAnchorCuts(positioned),
+			cellContext
+		);
+		const text = rawText.replace(/\n$/, '');
+		const body = text.trim();
+		if (!body || remaining.length === 0) return body;
+
+		const lead = text.length - text.trimStart().length;
+		const reserved = claimRecordedRanges(positioned, (offset) =>
+			Math.max(
+				0,
+				Math.min((offset === undefined ? text.length : positions.get(offset)!) - lead, body.length)
+			)
+		);
+		const candidates = remaining.filter(
+			(thread) => thread.quotedText && !hasAnchorOffsets(thread)
+		);
+		const result = insertAnchors(body, candidates, renderer, reserved);
+		for (const id of result.anchored) anchored.add(id);
+		remaining = remaining.filter((t) => !result.anchored.has(t.id));
+		return result.text;
+	});
+	if (rows.length === 0) return { lines: [], anchored };
+
+	const columns = Math.max(1, table.columns, ...rows.map((row) => row.length));
+	const formatRow = (cells: string[]) =>
+		'| ' +
+		Array.from({ length: columns }, (_, i) =>
+			(cells[i] ?? '').replace(/\|/g, '\\|')
+		).join(' | ') +
+		' |';
+
+	const lines = [
+		formatRow(rows[0]),
+		'| ' + Array.from({ length: columns }, () => '---').join(' | ') + ' |',
+		...rows.slice(1).map(formatRow)
+	];
+	return { lines, anchored };
+}
+
 /**
  * Insert anchor markers into text for commented sections.
  *
@@ -134,14 +708,50 @@ export function formatCommentThread(thread: CommentThread): string {
  */
 function insertAnchors(
 	text: string,
-	threads: CommentThread[]
+	threads: CommentThread[],
+	renderer: CommentRenderer,
+	claimed: AnchorClaim[] = []
 ): { text: string; anchored: Set<string> } {
-	interface Claim {
-		start: number;
-		end: number;
-		anchorId: string;
+	const claims = claimAnchorRanges(text, threads, claimed);
+	const anchored = new Set(claims.map((claim) => claim.threadId));
+	if (claims.length === 0) return { text, anchored };
+
+	let out = '';
+	let cursor = 0;
+	for (const claim of claims) {
+		out += text.slice(cursor, claim.start);
+		out += renderer.anchor(text.slice(claim.start, claim.end), claim);
+		cursor = claim.end;
 	}
+	out += text.slice(cursor);
+	return { text: out, anchored };
+}
+
+/** A non-overlapping span of text claimed by one thread's anchor. */
+export interface AnchorClaim {
+	start: number;
+	end: number;
+	anchorId: string;
+	threadId: string;
+	/** Set on the continuation of a range from an earlier paragraph. */
+	continued?: boolean;
+}
 
+/**
+ * Resolve where each thread's `quotedText` lands in `text`: the first
+ * occurrence not already claimed by a longer quote. Threads that can't be
+ * placed are simply absent from the result. Spans in `claimed` (recorded
+ * positions, and the continuation of a range from an earlier paragraph) are
+ * taken in order before any thread, skipping any that overlaps one already
+ * taken; zero-width ones (point comments) are placed last, moving to the end
+ * of any span they fall inside so anchors never nest. Claims come back
+ * sorted by `start`, zero-width first on ties.
+ */
+export function claimAnchorRanges(
+	text: string,
+	threads: CommentThread[],
+	claimed: AnchorClaim[] = []
+): AnchorClaim[] {
 	// Process longer quotedTexts first so that at contested positions the
 	// longer one wins. `sort` is stable in modern JS, preserving the
 	// original thread order for equal-length quotes.
@@ -149,8 +759,12 @@ function insertAnchors(
 		(a, b) => b.quotedText.length - a.quotedText.length
 	);
 
-	const claims: Claim[] = [];
-	const anchored = new Set<string>();
+	const claims: AnchorClaim[] = [];
+	for (const claim of claimed) {
+		if (claim.end === claim.start) continue;
+		if (claims.some((c) => claim.start < c.end && claim.end > c.start)) continue;
+		claims.push(claim);
+	}
 
 	for (const thread of sorted) {
 		const q = thread.quotedText;
@@ -164,8 +778,7 @@ function insertAnchors(
 
 			const overlap = claims.find((c) => pos < c.end && end > c.start);
 			if (!overlap) {
-				claims.push({ start: pos, end, anchorId: thread.anchorId });
-				anchored.add(thread.id);
+				claims.push({ start: pos, end, anchorId: thread.anchorId, threadId: thread.id });
 				break;
 			}
 			// Skip past the overlapping claim and try again.
@@ -173,45 +786,222 @@ function insertAnchors(
 		}
 	}
 
-	if (claims.length === 0) return { text, anchored };
+	for (const point of claimed.filter((claim) => claim.end === claim.start)) {
+		const inside = claims.find((c) => c.start < point.start && point.start < c.end);
+		const at = inside ? inside.end : point.start;
+		claims.push({ ...point, start: at, end: at });
+	}
 
-	claims.sort((a, b) => a.start - b.start);
-	let out = '';
-	let cursor = 0;
-	for (const claim of claims) {
-		out += text.slice(cursor, claim.start);
-		out += `[${text.slice(claim.start, claim.end)}]^[${claim.anchorId}]`;
-		cursor = claim.end;
+	return claims.sort((a, b) => a.start - b.start || a.end - a.start - (b.end - b.start));
+}
+
+/**
+ * Whether a thread's range runs on past the body paragraph it starts in.
+ */
+export function isSpanningThread(thread: CommentThread): boolean {
+	return (
+		thread.anchorParaIndex !== undefined &&
+		thread.anchorEndParaIndex !== undefined &&
+		thread.anchorEndParaIndex > thread.anchorParaIndex
+	);
+}
+
+/**
+ * Whether the adapter recorded where a thread's range lies, so its anchor is
+ * placed by offset instead of by searching for `quotedText` (which misses
+ * quotes split by inline markup and picks the first of repeated words).
+ * Ranges inside footnotes carry no offsets; those in table cells count
+ * within the cell paragraph named by `anchorCellParagraph`.
+ */
+export function hasAnchorOffsets(thread: CommentThread): boolean {
+	return (
+		thread.anchorParaIndex !== undefined &&
+		thread.anchorStartOffset !== undefined &&
+		thread.anchorFootnoteId === undefined
+	);
+}
+
+/**
+ * Whether a thread is placed by its recorded offsets in the body paragraph at
+ * `index` or, given `cellParagraph`, in that paragraph of the table at
+ * `index`.
+ */
+export function isPositionedAt(
+	thread: CommentThread,
+	index: number,
+	cellParagraph?: number
+): boolean {
+	return (
+		hasAnchorOffsets(thread) &&
+		thread.anchorParaIndex === index &&
+		thread.anchorCellParagraph === cellParagraph
+	);
+}
+
+/**
+ * Whether a thread is a point comment (an empty range) with a known
+ * position in the document.
+ */
+export function isPointThread(thread: CommentThread): boolean {
+	return !thread.quotedText && hasAnchorOffsets(thread);
+}
+
+/**
+ * Offsets of a positioned thread's range within the paragraph it starts in.
+ * `end` is absent when the range runs on past that paragraph; a thread with
+ * no recorded end offset is taken to cover its `quotedText`.
+ */
+export function getAnchorOffsets(thread: CommentThread): { start: number; end?: number } {
+	const start = thread.anchorStartOffset!;
+	if (isSpanningThread(thread)) return { start };
+	return { start, end: thread.anchorEndOffset ?? start + thread.quotedText.length };
+}
+
+/** Offsets at which to cut a paragraph to place the given threads' anchors. */
+function getAnchorCuts(threads: CommentThread[]): number[] {
+	return threads.flatMap((thread) => {
+		const { start, end } = getAnchorOffsets(thread);
+		return end === undefined ? [start] : [start, end];
+	});
+}
+
+/**
+ * Claims for threads placed by their recorded offsets, as every output places
+ * them. `locate` maps an offset in the paragraph to a position in the output
+ * text, and `undefined` (a range running on past the paragraph) to the end of
+ * it. Longer ranges come first, so a range contested with a shorter one wins
+ * in `claimAnchorRanges`.
+ */
+export function claimRecordedRanges(
+	threads: CommentThread[],
+	locate: (offset: number | undefined) => number
+): AnchorClaim[] {
+	return threads
+		.map((thread) => {
+			const { start, end } = getAnchorOffsets(thread);
+			return {
+				start: locate(start),
+				end: locate(end),
+				anchorId: thread.anchorId,
+				threadId: thread.id
+			};
+		})
+		.sort((a, b) => b.end - b.start - (a.end - a.start));
+}
+
+/**
+ * Render paragraph elements cut at the given offsets, reporting where each
+ * offset lands in the rendered text. Each piece is rendered on its own, so
+ * inline formatting is closed before a cut and reopened after it.
+ */
+function renderWithCuts(
+	elements: ParagraphElement[],
+	offsets: number[],
+	context: InlineRenderContext
+): { text: string; positions: Map<number, number> } {
+	const positions = new Map<number, number>();
+	let text = '';
+	let rest = elements;
+	let consumed = 0;
+	// A piece starts a line where the paragraph does or after a hard break.
+	const startsLine = (before: string) =>
+		before.trim() ? before.endsWith('\n') : (context.lineStart ?? true);
+	for (const offset of [...new Set(offsets)].sort((a, b) => a - b)) {
+		const [head, tail] = splitElementsAt(rest, offset - consumed);
+		text += extractTextContent(head, { ...context, lineStart: startsLine(text) });
+		positions.set(offset, text.length);
+		rest = tail;
+		consumed = offset;
 	}
-	out += text.slice(cursor);
-	return { text: out, anchored };
+	const tail = extractTextContent(rest, { ...context, lineStart: startsLine(text) });
+	return { text: text + tail, positions };
+}
+
+/**
+ * Split paragraph elements at `offset` (Docs index units: text characters,
+ * with footnote references, images and page breaks counting one), cutting a
+ * text run in two when the offset falls inside it.
+ */
+export function splitElementsAt(
+	elements: ParagraphElement[],
+	offset: number
+): [ParagraphElement[], ParagraphElement[]] {
+	const head: ParagraphElement[] = [];
+	const tail: ParagraphElement[] = [];
+	let position = 0;
+	for (const element of elements) {
+		const length = element.textRun
+			? element.textRun.content.length
+			: element.footnoteReference || element.inlineObjectElement || element.pageBreak
+				? 1
+				: 0;
+		if (position + length <= offset) {
+			head.push(element);
+		} else if (position >= offset || !element.textRun) {
+			tail.push(element);
+		} else {
+			const cut = offset - position;
+			const { content } = element.textRun;
+			head.push({ ...element, textRun: { ...element.textRun, content: content.slice(0, cut) } });
+			tail.push({ ...element, textRun: { ...element.textRun, content: content.slice(cut) } });
+		}
+		position += length;
+	}
+	return [head, tail];
 }
 
 /**
  * Renumber threads sequentially by their first appearance in the document.
  * Threads are ordered by which paragraph they first match (document position),
- * not by their API/creation order.
+ * not by their API/creation order; within a paragraph, threads with recorded
+ * offsets follow the order of their anchors.
  */
-function renumberByDocumentOrder(
+export function renumberByDocumentOrder(
 	doc: GoogleDocsDocument,
 	threads: CommentThread[]
 ): CommentThread[] {
 	const seen = new Set<string>();
 	const ordered: CommentThread[] = [];
+	const context: InlineRenderContext = { inlineObjects: doc.inlineObjects };
 
 	for (let i = 0; i < doc.body.content.length; i++) {
-		const element = doc.body.content[i];
-		if (!element.paragraph) continue;
-		const rawText = extractTextContent(element.paragraph.elements);
-		const textContent = rawText.replace(/\n$/, '');
+		const textContent = getElementMatchText(doc.body.content[i], context);
 		if (!textContent.trim()) continue;
 
-		for (const thread of threads) {
-			if (seen.has(thread.id)) continue;
-			if (!thread.quotedText) continue;
-			if (threadMatchesParagraph(thread, i, textContent)) {
-				seen.add(thread.id);
-				ordered.push(thread);
+		const matched = threads.filter(
+			(thread) =>
+				!seen.has(thread.id) &&
+				(thread.quotedText || isPointThread(thread)) &&
+				threadMatchesParagraph(withRenderedQuote(thread), i, textContent)
+		);
+		// Positioned threads take the slots they hold among the matches, in
+		// anchor order; a point comment goes before a range starting with it.
+		const byOffset = matched
+			.filter(hasAnchorOffsets)
+			.sort(
+				(a, b) =>
+					(a.anchorCellParagraph ?? 0) - (b.anchorCellParagraph ?? 0) ||
+					a.anchorStartOffset! - b.anchorStartOffset! ||
+					Number(!isPointThread(a)) - Number(!isPointThread(b))
+			);
+		for (const thread of matched) {
+			seen.add(thread.id);
+			ordered.push(hasAnchorOffsets(thread) ? byOffset.shift()! : thread);
+		}
+	}
+
+	// Threads inside footnotes come next, in the order the footnotes are
+	// rendered at the end of the document.
+	for (const { reference } of collectFootnoteReferences(doc.body.content)) {
+		const footnoteId = reference.footnoteId;
+		for (const text of getFootnoteMatchTexts(doc, footnoteId, context)) {
+			for (const thread of threads) {
+				if (seen.has(thread.id)) continue;
+				if (!thread.quotedText) continue;
+				if (threadMatchesFootnote(withRenderedQuote(thread), footnoteId, text)) {
+					seen.add(thread.id);
+					ordered.push(thread);
+				}
 			}
 		}
 	}
@@ -237,15 +1027,19 @@ function renumberByDocumentOrder(
  * When the adapter has recorded the thread's originating paragraph via
  * `anchorParaIndex`, that is authoritative — a thread only matches its one
  * true paragraph and nowhere else, even if its `quotedText` happens to
- * appear as a substring earlier in the doc. When `anchorParaIndex` is
- * absent (unit tests, old cached history entries), fall back to the
- * historical substring-includes heuristic.
+ * appear as a substring earlier in the doc. Threads with recorded offsets
+ * match on the index alone, since inline markup can split their quote in
+ * the rendered text. When `anchorParaIndex` is absent (unit tests, old
+ * cached history entries), fall back to the historical substring-includes
+ * heuristic.
  */
-function threadMatchesParagraph(
+export function threadMatchesParagraph(
 	thread: CommentThread,
 	paragraphIndex: number,
 	paragraphText: string
 ): boolean {
+	if (thread.anchorFootnoteId !== undefined) return false;
+	if (hasAnchorOffsets(thread)) return thread.anchorParaIndex === paragraphIndex;
 	if (thread.anchorParaIndex !== undefined) {
 		if (thread.anchorParaIndex !== paragraphIndex) return false;
 		// Guard against a vanishing quote: if the paragraph text no longer
@@ -257,16 +1051,246 @@ function threadMatchesParagraph(
 	return paragraphText.includes(thread.quotedText);
 }
 
+/**
+ * Decide whether a thread belongs to a paragraph of the given footnote. Only
+ * threads the adapter recorded inside that footnote qualify.
+ */
+export function threadMatchesFootnote(
+	thread: CommentThread,
+	footnoteId: string,
+	paragraphText: string
+): boolean {
+	return thread.anchorFootnoteId === footnoteId && paragraphText.includes(thread.quotedText);
+}
+
+/** Rendered text of each non-empty paragraph of a footnote. */
+function getFootnoteMatchTexts(
+	doc: GoogleDocsDocument,
+	footnoteId: string,
+	context: InlineRenderContext
+): string[] {
+	const footnote = doc.footnotes?.[footnoteId];
+	if (!footnote) return [];
+	return footnote.content
+		.map((element) => getElementMatchText(element, context).trim())
+		.filter((text) => text !== '');
+}
+
+/**
+ * Render the footnote definitions for every footnote referenced in the body,
+ * in reference order: `[^1]: text`, with further paragraphs indented four
+ * spaces. Threads anchored inside a footnote follow its definition.
+ */
+function renderFootnotes(
+	doc: GoogleDocsDocument,
+	threads: CommentThread[],
+	matchedThreadIds: Set<string>,
+	renderer: CommentRenderer,
+	context: InlineRenderContext
+): string[] {
+	const lines: string[] = [];
+	for (const { reference } of collectFootnoteReferences(doc.body.content)) {
+		const footnoteId = reference.footnoteId;
+		const texts = getFootnoteMatchTexts(doc, footnoteId, context);
+		if (texts.length === 0) continue;
+
+		const placed: CommentThread[] = [];
+		const paragraphs = texts.map((text) => {
+			const candidates = threads.filter(
+				(thread) =>
+					!matchedThreadIds.has(thread.id) &&
+					thread.quotedText &&
+					threadMatchesFootnote(thread, footnoteId, text)
+			);
+			if (candidates.length === 0) return text;
+			const result = insertAnchors(text, candidates, renderer);
+			for (const thread of candidates) {
+				if (!result.anchored.has(thread.id)) continue;
+				matchedThreadIds.add(thread.id);
+				placed.push(thread);
+			}
+			return result.text;
+		});
+
+		lines.push(`[^${getFootnoteLabel(reference)}]: ${paragraphs[0]}`);
+		for (const paragraph of paragraphs.slice(1)) {
+			lines.push('');
+			lines.push(`    ${paragraph}`);
+		}
+		lines.push('');
+		for (const block of placed.map((thread) => renderer.thread(thread)).filter((b) => b)) {
+			lines.push(block);
+			lines.push('');
+		}
+	}
+	return lines;
+}
+
+/**
+ * Collect the text of every suggested edit in body order, grouped by
+ * suggestion id (one suggestion can span several runs or paragraphs).
+ */
+function collectSuggestionText(
+	content: StructuralElement[],
+	out: Map<string, string>
+): Map<string, string> {
+	for (const element of content) {
+		if (element.paragraph) {
+			for (const pe of element.paragraph.elements) {
+				const suggestion = pe.textRun && getRunSuggestion(pe.textRun);
+				if (!suggestion) continue;
+				out.set(suggestion.id, (out.get(suggestion.id) ?? '') + pe.textRun!.content);
+			}
+		} else if (element.table) {
+			for (const row of element.table.tableRows) {
+				for (const cell of row.tableCells) collectSuggestionText(cell.content, out);
+			}
+		}
+	}
+	return out;
+}
+
+/**
+ * Format the `## Suggestions` digest: one bullet per suggested edit that
+ * appears in the rendered body, in document order. Returns an empty array
+ * when there is nothing to list.
+ */
+function formatSuggestionDigest(doc: GoogleDocsDocument, criticMarkup: boolean): string[] {
+	const texts = collectSuggestionText(doc.body.content, new Map());
+	if (texts.size === 0) return [];
+
+	const lines = ['## Suggestions', ''];
+	for (const [id, text] of texts) {
+		const suggestion = doc.suggestions?.[id];
+		const kind = suggestion?.kind ?? 'insertion';
+		const author = suggestion?.authorName || 'Unknown';
+		const date = suggestion?.date ? ` (${suggestion.date.slice(0, 10)})` : '';
+		const verb = kind === 'insertion' ? 'inserted' : 'deleted';
+		const [open, close] = SUGGESTION_DELIMITERS[kind];
+		const body = escapeMarkdown(text.replace(/\n/g, ' '), false, criticMarkup);
+		lines.push(`- **${author}**${date} ${verb}: ${open}${body}${close}`);
+	}
+	return lines;
+}
+
+/** Marks text left out between comments-only excerpts. */
+const ELISION = '…';
+
+/**
+ * Indexes of the body elements a comments-only rendering keeps: each
+ * element a thread is anchored in (matched as `renumberByDocumentOrder`
+ * matches them, by `anchorParaIndex` where recorded), each element a
+ * spanning range covers, and `contextParagraphs` non-empty elements either
+ * side of them.
+ */
+function getExcerptElementIndexes(
+	doc: GoogleDocsDocument,
+	threads: CommentThread[],
+	contextParagraphs: number,
+	context: InlineRenderContext
+): Set<number> {
+	const contentIndexes: number[] = [];
+	const anchored = new Set<number>();
+	const seen = new Set<string>();
+
+	doc.body.content.forEach((element, index) => {
+		const textContent = getElementMatchText(element, context);
+		if (!textContent.trim()) return;
+		contentIndexes.push(index);
+		for (const thread of threads) {
+			if (seen.has(thread.id)) continue;
+			if (!thread.quotedText && !isPointThread(thread)) continue;
+			if (!threadMatchesParagraph(thread, index, textContent)) continue;
+			seen.add(thread.id);
+			const end = isSpanningThread(thread) ? thread.anchorEndParaIndex! : index;
+			for (let i = index; i <= end; i++) anchored.add(i);
+		}
+	});
+
+	const keep = new Set<number>();
+	contentIndexes.forEach((index, position) => {
+		if (!anchored.has(index)) return;
+		const from = Math.max(0, position - contextParagraphs);
+		const to = Math.min(contentIndexes.length - 1, position + contextParagraphs);
+		for (let i = from; i <= to; i++) keep.add(contentIndexes[i]);
+	});
+	return keep;
+}
+
+/** Texts of the headings enclosing the element at `index`, outermost first. */
+function getHeadingTrail(outline: OutlineEntry[], index: number): string[] {
+	let trail: string[] = [];
+	for (const entry of outline) {
+		if (entry.startElementIndex >= index) break;
+		if (entry.endElementIndex > index) trail = entry.path;
+	}
+	return trail;
+}
+
+export interface MarkdownOptions extends CommentFormatOptions {
+	/**
+	 * Append a `## Suggestions` section listing every suggested edit (tracked
+	 * insertion/deletion) with its author and date. Suggestions are always
+	 * marked inline; the digest is an at-a-glance summary.
+	 */
+	suggestionDigest?: boolean;
+	/** Switches for the optional style markup; unset ones stay on. */
+	styles?: Partial<StyleProfile>;
+	/**
+	 * Render only the paragraphs carrying comment anchors, with
+	 * `contextParagraphs` paragraphs either side, as excerpts separated by
+	 * `…` lines and each headed by its heading trail.
+	 */
+	commentsOnly?: boolean;
+	/** Paragraphs of context around each anchored one; defaults to 1. */
+	contextParagraphs?: number;
+	/** How comments are written; defaults to `markdown`. */
+	format?: OutputFormat;
+}
+
 /**
  * Transform Google Docs document and comments to markdown
  */
 export function transformToMarkdown(
 	doc: GoogleDocsDocument,
-	threads: CommentThread[]
+	threads: CommentThread[],
+	options: MarkdownOptions = {}
 ): string {
+	return renderMarkdown(doc, threads, options).markdown;
+}
+
+/**
+ * Render markdown and report which threads fell through to the trailing
+ * `## Unanchored comments` section.
+ */
+function renderMarkdown(
+	doc: GoogleDocsDocument,
+	threads: CommentThread[],
+	options: MarkdownOptions
+): { markdown: string; unanchored: CommentThread[] } {
+	const format = options.format ?? 'markdown';
+	const criticMarkup = format === 'criticmarkup';
 	// Renumber threads by document position order
-	const orderedThreads = renumberByDocumentOrder(doc, threads);
+	// Quotes are matched against escaped text, so escape them alike.
+	const orderedThreads = renumberByDocumentOrder(doc, threads).map((thread) =>
+		withRenderedQuote(thread, criticMarkup)
+	);
 	const matchedThreadIds = new Set<string>();
+	const context: InlineRenderContext = {
+		inlineObjects: doc.inlineObjects,
+		styles: { ...DEFAULT_STYLE_PROFILE, ...options.styles },
+		criticMarkup
+	};
+	const renderer = createCommentRenderer(format, orderedThreads, options);
+	// The blocks placed after an element, leaving out formats' empty ones.
+	// Footnote definitions are kept apart by a blank line, as after a table;
+	// blockquote threads stack.
+	const threadBlocks = (placed: CommentThread[]) => {
+		const blocks = placed.map((thread) => renderer.thread(thread)).filter((block) => block);
+		return format === 'footnotes'
+			? blocks.flatMap((block, index) => (index > 0 ? ['', block] : [block]))
+			: blocks;
+	};
 
 	const lines: string[] = [];
 
@@ -276,20 +1300,148 @@ export function transformToMarkdown(
 	);
 
 	if (!hasTitleParagraph) {
-		lines.push(`# ${doc.title}`);
+		lines.push(`# ${escapeMarkdown(doc.title, false, criticMarkup)}`);
 		lines.push('');
 	}
 
 	let prevWasList = false;
 
+	// Threads whose range runs on past the paragraph holding their anchor.
+	// Each is placed after the element where its range ends; paragraphs in
+	// between get a `[...]^[cN cont.]` marker.
+	let spanning: CommentThread[] = [];
+	const takeEndingAt = (index: number): CommentThread[] => {
+		const ending = spanning.filter((t) => t.anchorEndParaIndex! <= index);
+		spanning = spanning.filter((t) => t.anchorEndParaIndex! > index);
+		return ending;
+	};
+	const holdSpanning = (placed: CommentThread[]): CommentThread[] => {
+		spanning.push(...placed.filter(isSpanningThread));
+		return placed.filter((t) => !isSpanningThread(t));
+	};
+	const pushOverdue = (overdue: CommentThread[]) => {
+		const blocks = threadBlocks(overdue);
+		if (blocks.length === 0) return;
+		lines.push('');
+		lines.push(...blocks);
+		lines.push('');
+	};
+
+	// Comments-only: the elements to render, and whether text was left out
+	// since the last one rendered.
+	const excerpt = options.commentsOnly
+		? getExcerptElementIndexes(
+				doc,
+				orderedThreads,
+				Math.max(0, options.contextParagraphs ?? 1),
+				context
+			)
+		: undefined;
+	const outline = excerpt ? getOutline(doc) : [];
+	let excerptOpen = false;
+	let elided = false;
+	// Start an excerpt: an elision marker for the text left out before it,
+	// then the trail of headings it sits under.
+	const openExcerpt = (elementIndex: number) => {
+		if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+		if (elided) lines.push(ELISION, '');
+		const trail = getHeadingTrail(outline, elementIndex);
+		if (trail.length > 0) {
+			const headings = trail.map((text) => escapeMarkdown(text, false, criticMarkup));
+			lines.push(`_${headings.join(' > ')}_`, '');
+		}
+		excerptOpen = true;
+		elided = false;
+		prevWasList = false;
+	};
+
 	for (let elementIndex = 0; elementIndex < doc.body.content.length; elementIndex++) {
 		const element = doc.body.content[elementIndex];
+
+		// A range ending on an element that rendered nothing (an empty
+		// paragraph, a section break) has its thread placed here instead.
+		pushOverdue(takeEndingAt(elementIndex - 1));
+
+		if (excerpt) {
+			if (!excerpt.has(elementIndex)) {
+				if (getElementMatchText(element, context).trim()) {
+					excerptOpen = false;
+					elided = true;
+				}
+				continue;
+			}
+			if (!excerptOpen) openExcerpt(elementIndex);
+		}
+
+		if (element.table) {
+			const tableText = getElementMatchText(element, context);
+			const candidateThreads = orderedThreads.filter(
+				(thread) =>
+					!matchedThreadIds.has(thread.id) &&
+					(thread.quotedText || isPointThread(thread)) &&
+					threadMatchesParagraph(thread, elementIndex, tableText)
+			);
+			const { lines: tableLines, anchored } = renderTable(
+				element.table,
+				elementIndex,
+				candidateThreads,
+				renderer,
+				context
+			);
+			if (tableLines.length === 0) continue;
+			for (const id of anchored) matchedThreadIds.add(id);
+
+			// A table is a block of its own: blank line before and after, with
+			// the threads anchored in any of its cells following the whole table.
+			if (lines.length > 0 && lines[lines.length - 1] !== '') {
+				lines.push('');
+			}
+			lines.push(...tableLines);
+			lines.push('');
+			const placedThreads = [
+				...takeEndingAt(elementIndex),
+				...holdSpanning(candidateThreads.filter((t) => anchored.has(t.id)))
+			];
+			for (const block of threadBlocks(placedThreads)) {
+				lines.push(block);
+				lines.push('');
+			}
+			prevWasList = false;
+			continue;
+		}
+
 		if (!element.paragraph) continue;
 
 		const paragraph = element.paragraph;
 		const styleType = paragraph.paragraphStyle?.namedStyleType;
 		const isList = !!paragraph.bullet;
-		const rawText = extractTextContent(paragraph.elements);
+
+		// The earliest open range covering this paragraph gets a continuation
+		// marker: over the whole paragraph, or up to the range's end offset.
+		// Further ranges covering the same text can't also be marked without
+		// nesting anchors; their threads are still placed after their end.
+		const continued = spanning[0];
+		const continuedEndOffset =
+			continued?.anchorEndParaIndex === elementIndex ? continued.anchorEndOffset : undefined;
+		// Threads with recorded offsets are placed by position, the text cut
+		// at each range boundary so inline markup closes and reopens around
+		// the anchor. A point comment gets a zero-width `^[cN]` marker.
+		const positioned = orderedThreads.filter(
+			(thread) => !matchedThreadIds.has(thread.id) && isPositionedAt(thread, elementIndex)
+		);
+		const cuts = getAnchorCuts(positioned);
+		if (continuedEndOffset !== undefined) cuts.push(continuedEndOffset);
+		// A heading has to stay on one line, so its line breaks become spaces.
+		const { text: rawText, positions } = renderWithCuts(
+			paragraph.elements,
+			cuts,
+			styleType && HEADING_MAP[styleType] ? { ...context, lineBreak: ' ' } : context
+		);
+		let continuedLength = 0;
+		if (continued) {
+			continuedLength =
+				continuedEndOffset !== undefined ? positions.get(continuedEndOffset)! : rawText.length;
+		}
 
 		// Skip empty paragraphs (just newlines)
 		if (!rawText.trim()) {
@@ -306,10 +1458,15 @@ export function transformToMarkdown(
 
 		// Build the line with heading/list prefix
 		let line: string;
+		// Where the paragraph text sits in `line`, for the reserved markers.
+		let bodyStart = 0;
+		let body = textContent;
+		let trimmedLead = 0;
 
 		if (isList) {
 			const prefix = getListPrefix(paragraph, doc);
 			line = `${prefix}${textContent}`;
+			bodyStart = prefix.length;
 
 			// No blank line between consecutive list items
 			if (!prevWasList && lines.length > 0) {
@@ -320,20 +1477,44 @@ export function transformToMarkdown(
 				}
 			}
 		} else if (styleType === 'SUBTITLE') {
-			line = `_${textContent.trim()}_`;
+			body = textContent.trim();
+			line = `_${body}_`;
+			bodyStart = 1;
+			trimmedLead = textContent.length - textContent.trimStart().length;
 		} else if (styleType && HEADING_MAP[styleType]) {
 			line = `${HEADING_MAP[styleType]}${textContent}`;
+			bodyStart = HEADING_MAP[styleType].length;
 		} else {
 			line = textContent;
 		}
 
-		// Candidate threads: belong to THIS paragraph (by recorded
-		// anchorParaIndex where available, substring fallback otherwise) AND
-		// haven't already been attached elsewhere.
+		// Map a position in `rawText` to one in `line`.
+		const toLine = (position: number) =>
+			bodyStart + Math.max(0, Math.min(position - trimmedLead, body.trimEnd().length));
+		const reserved: AnchorClaim[] = [];
+		if (continued && toLine(continuedLength) > bodyStart) {
+			reserved.push({
+				start: bodyStart,
+				end: toLine(continuedLength),
+				anchorId: `${continued.anchorId} cont.`,
+				threadId: continued.id,
+				continued: true
+			});
+		}
+		reserved.push(
+			...claimRecordedRanges(positioned, (offset) =>
+				toLine(offset === undefined ? rawText.length : positions.get(offset)!)
+			)
+		);
+
+		// Candidate threads without offsets: belong to THIS paragraph (by
+		// recorded anchorParaIndex where available, substring fallback
+		// otherwise) AND haven't already been attached elsewhere.
 		const candidateThreads = orderedThreads.filter(
 			(thread) =>
 				!matchedThreadIds.has(thread.id) &&
 				thread.quotedText &&
+				!hasAnchorOffsets(thread) &&
 				threadMatchesParagraph(thread, elementIndex, textContent)
 		);
 
@@ -343,14 +1524,19 @@ export function transformToMarkdown(
 		// trailing "## Unanchored comments" section so the reader still sees
 		// them instead of losing them to a silent stack.
 		let anchored = new Set<string>();
-		if (candidateThreads.length > 0) {
-			const result = insertAnchors(line, candidateThreads);
+		if (candidateThreads.length > 0 || reserved.length > 0) {
+			const result = insertAnchors(line, candidateThreads, renderer, reserved);
 			line = result.text;
 			anchored = result.anchored;
 		}
 		for (const id of anchored) matchedThreadIds.add(id);
 
-		const placedThreads = candidateThreads.filter((t) => anchored.has(t.id));
+		const placedBlocks = threadBlocks([
+			...takeEndingAt(elementIndex),
+			...holdSpanning(
+				orderedThreads.filter((t) => anchored.has(t.id) && t.id !== continued?.id)
+			)
+		]);
 
 		// Add blank line before non-list paragraphs (standard markdown spacing)
 		if (!isList && prevWasList) {
@@ -362,38 +1548,56 @@ export function transformToMarkdown(
 		// Regular paragraphs get followed by a blank line
 		if (!isList) {
 			// Add comment threads after the paragraph
-			if (placedThreads.length > 0) {
+			if (placedBlocks.length > 0) {
 				lines.push('');
-				for (const thread of placedThreads) {
-					lines.push(formatCommentThread(thread));
-				}
+				lines.push(...placedBlocks);
 			}
 
 			lines.push('');
-		} else if (placedThreads.length > 0) {
+		} else if (placedBlocks.length > 0) {
 			// Comments on list items: add after the item
 			lines.push('');
-			for (const thread of placedThreads) {
-				lines.push(formatCommentThread(thread));
-			}
+			lines.push(...placedBlocks);
 		}
 
 		prevWasList = isList;
 	}
+	pushOverdue(takeEndingAt(Infinity));
+	if (elided) {
+		lines.push('');
+		lines.push(ELISION);
+		lines.push('');
+	}
+
+	const footnoteLines = renderFootnotes(doc, orderedThreads, matchedThreadIds, renderer, context);
+	if (footnoteLines.length > 0) {
+		lines.push('');
+		lines.push(...footnoteLines);
+	}
+
+	if (options.suggestionDigest) {
+		const digest = formatSuggestionDigest(doc, criticMarkup);
+		if (digest.length > 0) {
+			lines.push('');
+			lines.push(...digest);
+			lines.push('');
+		}
+	}
 
 	// Append any threads that never matched a paragraph into a trailing
 	// "## Unanchored comments" section. This is a defensive safety net: when
-	// quotedText is missing (point comments, deleted anchors) or the range
-	// captured in OOXML doesn't line up with any emitted paragraph, the
-	// comment would otherwise be silently dropped. Keeping it visible in a
-	// dedicated section makes the failure loud enough to diagnose.
+	// quotedText is missing (deleted anchors, point comments without a
+	// position) or the range captured in OOXML doesn't line up with any
+	// emitted paragraph, the comment would otherwise be silently dropped.
+	// Keeping it visible in a dedicated section makes the failure loud
+	// enough to diagnose.
 	const unanchored = orderedThreads.filter((thread) => !matchedThreadIds.has(thread.id));
 	if (unanchored.length > 0) {
 		lines.push('');
 		lines.push('## Unanchored comments');
 		lines.push('');
 		for (const thread of unanchored) {
-			lines.push(formatCommentThread(thread));
+			lines.push(renderer.unanchored(thread));
 			lines.push('');
 		}
 	}
@@ -403,26 +1607,37 @@ export function transformToMarkdown(
 	result = result.replace(/\n{3,}/g, '\n\n');
 	result = result.trimEnd() + '\n';
 
-	return result;
+	return { markdown: result, unanchored };
 }
 
-export interface TransformOptions {
+export interface TransformOptions extends MarkdownOptions {
 	startPage?: number;
 	pageCount?: number;
 	charsPerPage?: number;
+	/**
+	 * Heading paths (`['Design', 'Risks']`) of the sections to render. When
+	 * set, selects by section instead of by page range.
+	 */
+	sections?: string[][];
 }
 
 export interface TransformResult {
 	markdown: string;
 	totalPages: number;
+	/** Whether `totalPages` follows Word's layout or is estimated. */
+	pageStrategy: PageStrategy;
 	pageRange: { start: number; end: number } | null;
 	commentCount: number;
+	/** Threads rendered in the `## Unanchored comments` section. */
+	unanchoredCount: number;
 }
 
 /**
  * Transform with optional page-range filtering.
  * When startPage > 1 or pageCount is set, filters elements and comments
  * to the requested page range and renumbers comment anchors sequentially.
+ * Sections named in `options.sections` are filtered the same way, instead of
+ * pages.
  */
 export function transformWithPageFilter(
 	doc: GoogleDocsDocument,
@@ -434,14 +1649,24 @@ export function transformWithPageFilter(
 		options.pageCount !== undefined
 	);
 
-	if (!isFiltering) {
-		// No filtering — estimate pages for metadata but render the full doc.
-		const totalPages = estimatePages(doc.body.content, options?.charsPerPage).length;
+	if (!isFiltering || options.sections?.length) {
+		// No page filtering — estimate pages for metadata but render the full
+		// doc, or the selected sections of it.
+		const pages = estimatePages(
+			doc.body.content,
+			options?.charsPerPage ?? getCharsPerPage(doc.documentStyle)
+		);
+		const selected = options?.sections?.length
+			? truncateBySections(doc, threads, options.sections)
+			: { doc, threads };
+		const rendered = renderMarkdown(selected.doc, selected.threads, options ?? {});
 		return {
-			markdown: transformToMarkdown(doc, threads),
-			totalPages,
+			markdown: rendered.markdown,
+			totalPages: pages.length,
+			pageStrategy: pages[0].strategy,
 			pageRange: null,
-			commentCount: threads.filter((t) => t.quotedText).length
+			commentCount: selected.threads.filter((t) => t.quotedText || isPointThread(t)).length,
+			unanchoredCount: rendered.unanchored.length
 		};
 	}
 
@@ -457,11 +1682,14 @@ export function transformWithPageFilter(
 		options.charsPerPage
 	);
 
+	const rendered = renderMarkdown(truncated.doc, truncated.threads, options);
 	return {
-		markdown: transformToMarkdown(truncated.doc, truncated.threads),
+		markdown: rendered.markdown,
 		totalPages: truncated.totalPages,
+		pageStrategy: truncated.pageStrategy,
 		pageRange: truncated.pageRange,
-		commentCount: truncated.threads.length
+		commentCount: truncated.threads.length,
+		unanchoredCount: rendered.unanchored.length
 	};
 }
 
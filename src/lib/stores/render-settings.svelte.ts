@@ -0,0 +1,139 @@
+/**
+ * Markdown rendering preferences using Svelte 5 runes
+ * Persists to localStorage; edited on the Settings page
+ */
+
+import { DEFAULT_DATE_FORMAT, isValidTimeZone } from '$lib/utils/time';
+import { DEFAULT_STYLE_PROFILE, type StyleProfile } from '$lib/services/transformer';
+
+const STORAGE_KEY = 'gdoc_render_settings';
+
+export interface RenderSettings {
+	/** Show each comment's date and time in its thread header. */
+	showTimestamps: boolean;
+	/** Token pattern passed to `formatTimestamp`. */
+	dateFormat: string;
+	/** IANA zone name timestamps are shown in. */
+	timeZone: string;
+	/** Emails for commenters the document doesn't identify, keyed by name. */
+	authorEmails: Record<string, string>;
+	/** Which optional run styles (underline, code, …) get markup. */
+	styles: StyleProfile;
+}
+
+const DEFAULTS: RenderSettings = {
+	showTimestamps: false,
+	dateFormat: DEFAULT_DATE_FORMAT,
+	timeZone: 'UTC',
+	authorEmails: {},
+	styles: DEFAULT_STYLE_PROFILE
+};
+
+// Module-level state using runes
+let settings = $state<RenderSettings>({ ...DEFAULTS });
+
+/**
+ * Get reactive render settings
+ */
+export function getRenderSettings(): RenderSettings {
+	return {
+		get showTimestamps() {
+			return settings.showTimestamps;
+		},
+		get dateFormat() {
+			return settings.dateFormat;
+		},
+		get timeZone() {
+			return settings.timeZone;
+		},
+		get authorEmails() {
+			return settings.authorEmails;
+		},
+		get styles() {
+			return settings.styles;
+		}
+	};
+}
+
+/**
+ * Update some settings and persist. An unknown time zone is rejected
+ * (returns false) rather than saved, since it would break rendering.
+ */
+export function updateRenderSettings(changes: Partial<RenderSettings>): boolean {
+	if (changes.timeZone !== undefined && !isValidTimeZone(changes.timeZone)) {
+		return false;
+	}
+	settings = { ...settings, ...changes };
+	if (!settings.dateFormat.trim()) settings.dateFormat = DEFAULT_DATE_FORMAT;
+	persist();
+	return true;
+}
+
+/**
+ * Reset every setting to its default
+ */
+export function resetRenderSettings(): void {
+	settings = { ...DEFAULTS };
+	try {
+		localStorage.removeItem(STORAGE_KEY);
+	} catch {
+		// localStorage may be unavailable
+	}
+}
+
+/**
+ * Restore settings from localStorage
+ */
+export function restoreRenderSettings(): void {
+	try {
+		const raw = localStorage.getItem(STORAGE_KEY);
+		if (!raw) return;
+
+		const parsed = JSON.parse(raw);
+		if (!parsed || typeof parsed !== 'object') return;
+
+		settings = {
+			showTimestamps:
+				typeof parsed.showTimestamps === 'boolean' ? parsed.showTimestamps : DEFAULTS.showTimestamps,
+			dateFormat:
+				typeof parsed.dateFormat === 'string' && parsed.dateFormat.trim()
+					? parsed.dateFormat
+					: DEFAULTS.dateFormat,
+			timeZone:
+				typeof parsed.timeZone === 'string' && isValidTimeZone(parsed.timeZone)
+					? parsed.timeZone
+					: DEFAULTS.timeZone,
+			authorEmails: readAuthorEmails(parsed.authorEmails),
+			styles: readStyles(parsed.styles)
+		};
+	} catch {
+		// Corrupt data — ignore
+	}
+}
+
+function readAuthorEmails(value: unknown): Record<string, string> {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+	const out: Record<string, string> = {};
+	for (const [name, email] of Object.entries(value)) {
+		if (typeof email === 'string' && email) out[name] = email;
+	}
+	return out;
+}
+
+function readStyles(value: unknown): StyleProfile {
+	const styles = { ...DEFAULTS.styles };
+	if (!value || typeof value !== 'object') return styles;
+	for (const key of Object.keys(styles) as Array<keyof StyleProfile>) {
+		const flag = (value as Record<string, unknown>)[key];
+		if (typeof flag === 'boolean') styles[key] = flag;
+	}
+	return styles;
+}
+
+function persist(): void {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+	} catch {
+		// localStorage may be unavailable
+	}
+}
@@ -9,6 +9,28 @@ export interface GoogleDocsDocument {
 	body: DocumentBody;
 	documentStyle?: DocumentStyle;
 	lists?: Record<string, DocList>;
+	/**
+	 * Suggested edits (tracked insertions/deletions) keyed by suggestion id.
+	 * Text runs reference these through `suggestedInsertionIds` /
+	 * `suggestedDeletionIds`, mirroring the Docs API's suggestion model.
+	 */
+	suggestions?: Record<string, Suggestion>;
+	/**
+	 * Footnotes (and, from .docx, endnotes) keyed by footnote id. Body text
+	 * points at them through `footnoteReference` paragraph elements.
+	 */
+	footnotes?: Record<string, Footnote>;
+	/**
+	 * Images referenced by `inlineObjectElement`s, keyed by object id. From
+	 * .docx, `contentUri` is the image's path inside the archive relative to
+	 * `word/` (e.g. `media/image1.png`), or its URL when linked externally.
+	 */
+	inlineObjects?: Record<string, InlineObject>;
+}
+
+export interface Footnote {
+	footnoteId: string;
+	content: StructuralElement[];
 }
 
 export interface DocList {
@@ -31,6 +53,18 @@ export interface DocumentBody {
 export interface DocumentStyle {
 	defaultHeaderId?: string;
 	defaultFooterId?: string;
+	/** From .docx, the last section's `<w:pgSz>`. */
+	pageSize?: { width: Dimension; height: Dimension };
+	/** From .docx, the last section's `<w:pgMar>`. */
+	marginTop?: Dimension;
+	marginBottom?: Dimension;
+	marginLeft?: Dimension;
+	marginRight?: Dimension;
+}
+
+export interface Dimension {
+	magnitude: number;
+	unit: 'PT';
 }
 
 export interface StructuralElement {
@@ -46,6 +80,12 @@ export interface Paragraph {
 	elements: ParagraphElement[];
 	paragraphStyle?: ParagraphStyle;
 	bullet?: Bullet;
+	/**
+	 * Offsets (in the units of `CommentThread.anchorStartOffset`) at which a
+	 * page began when Word last laid the document out, from .docx
+	 * `<w:lastRenderedPageBreak/>` markers. Not part of the Docs API.
+	 */
+	renderedPageBreaks?: number[];
 }
 
 export interface ParagraphStyle {
@@ -64,6 +104,13 @@ export interface ParagraphElement {
 	textRun?: TextRun;
 	inlineObjectElement?: InlineObjectElement;
 	pageBreak?: PageBreak;
+	footnoteReference?: FootnoteReference;
+}
+
+export interface FootnoteReference {
+	footnoteId: string;
+	/** The rendered reference mark ("1", "2", …). */
+	footnoteNumber?: string;
 }
 
 export interface PageBreak {
@@ -73,6 +120,8 @@ export interface PageBreak {
 export interface TextRun {
 	content: string;
 	textStyle?: TextStyle;
+	suggestedInsertionIds?: string[];
+	suggestedDeletionIds?: string[];
 }
 
 export interface TextStyle {
@@ -80,6 +129,15 @@ export interface TextStyle {
 	italic?: boolean;
 	underline?: boolean;
 	strikethrough?: boolean;
+	/** Raised or lowered text (`w:vertAlign`). */
+	baselineOffset?: 'SUPERSCRIPT' | 'SUBSCRIPT';
+	/** The run's font (`w:rFonts`), e.g. "Consolas". */
+	weightedFontFamily?: { fontFamily: string };
+	/**
+	 * Highlight behind the text: a `w:highlight` colour name ("yellow") or a
+	 * `w:shd` fill as hex ("FFFF00").
+	 */
+	backgroundColor?: string;
 	link?: Link;
 }
 
@@ -92,6 +150,22 @@ export interface InlineObjectElement {
 	inlineObjectId: string;
 }
 
+export interface InlineObject {
+	objectId: string;
+	inlineObjectProperties: {
+		embeddedObject: EmbeddedObject;
+	};
+}
+
+export interface EmbeddedObject {
+	title?: string;
+	/** Alt text. */
+	description?: string;
+	imageProperties?: {
+		contentUri?: string;
+	};
+}
+
 export interface SectionBreak {
 	sectionStyle?: SectionStyle;
 }
@@ -157,6 +231,56 @@ export interface CommentThread {
 	 * back to the original substring-matching behavior.
 	 */
 	anchorParaIndex?: number;
+	/**
+	 * Set when the comment range lies inside a footnote: the id of that
+	 * footnote in `GoogleDocsDocument.footnotes`. `anchorParaIndex` then
+	 * points at the body paragraph holding the footnote's reference, so page
+	 * filtering keeps the thread exactly when it keeps the footnote.
+	 */
+	anchorFootnoteId?: string;
+	/**
+	 * Offset of the range start within the paragraph at `anchorParaIndex`.
+	 * When set, the transformer places the anchor at exactly this position
+	 * instead of searching for `quotedText`, which stays as a description of
+	 * the range (for a range across several paragraphs, of the first
+	 * paragraph's portion). Offsets count characters of the paragraph's text
+	 * runs, with footnote references, images and page breaks counting one, as
+	 * Docs API indexes do. Not set for ranges inside footnotes; inside a
+	 * table, they count within the cell paragraph named by
+	 * `anchorCellParagraph`.
+	 */
+	anchorStartOffset?: number;
+	/**
+	 * For a range inside a table (the element at `anchorParaIndex`), the
+	 * position of the cell paragraph holding its start among all paragraphs of
+	 * the table's cells in reading order, nested tables flattened in place.
+	 */
+	anchorCellParagraph?: number;
+	/**
+	 * Index into `body.content` of the element where the range ends, when it
+	 * runs past the paragraph it starts in.
+	 */
+	anchorEndParaIndex?: number;
+	/**
+	 * Offset of the range end (exclusive) within the paragraph at
+	 * `anchorEndParaIndex`, or at `anchorParaIndex` when the range ends where
+	 * it starts. Absent when a range in a table ends in a later paragraph of
+	 * the same table; it then covers its `quotedText`.
+	 */
+	anchorEndOffset?: number;
+}
+
+/**
+ * A reviewer's suggested edit, captured from an OOXML `<w:ins>` / `<w:del>`
+ * revision mark. The affected text lives in the text runs that reference
+ * this suggestion's id.
+ */
+export interface Suggestion {
+	id: string;
+	kind: 'insertion' | 'deletion';
+	authorName: string;
+	/** ISO timestamp from `w:date`; empty when the export omits it. */
+	date: string;
 }
 
 export interface ThreadComment {
@@ -164,6 +288,8 @@ export interface ThreadComment {
 	authorEmail: string;
 	content: string;
 	isReply: boolean;
+	/** ISO timestamp from `w:date`; absent when the export omits it. */
+	createdAt?: string;
 }
 
 export interface AnchoredText {
@@ -1,3 +1,5 @@
+import type { ThreadFilter } from '$lib/utils/thread-filter';
+
 /**
  * History entry metadata stored in localStorage
  */
@@ -7,4 +9,12 @@ export interface HistoryEntry {
 	docTitle: string;
 	commentCount: number;
 	convertedAt: number; // unix ms
+	/**
+	 * Where the document came from. `local` entries were uploaded from disk:
+	 * `docUrl` holds the file name and there is nothing on Drive to re-fetch.
+	 * Absent on entries saved before local uploads existed (all Drive).
+	 */
+	source?: 'drive' | 'local';
+	/** The thread filter the conversion used; absent when it kept every thread. */
+	threadFilter?: ThreadFilter;
 }
@@ -0,0 +1,24 @@
+/**
+ * Parse a name → email alias list, one `Name = email` per line. Blank lines
+ * and lines without an `=` are ignored; the last entry for a name wins.
+ */
+export function parseAuthorAliases(text: string): Record<string, string> {
+	const aliases: Record<string, string> = {};
+	for (const line of text.split('\n')) {
+		const eq = line.lastIndexOf('=');
+		if (eq === -1) continue;
+		const name = line.slice(0, eq).trim();
+		const email = line.slice(eq + 1).trim();
+		if (name && email) aliases[name] = email;
+	}
+	return aliases;
+}
+
+/**
+ * Format an alias map back into the editable `Name = email` text.
+ */
+export function formatAuthorAliases(aliases: Record<string, string>): string {
+	return Object.entries(aliases)
+		.map(([name, email]) => `${name} = ${email}`)
+		.join('\n');
+}
@@ -0,0 +1,42 @@
+/**
+ * Helpers for .docx files uploaded from disk (the no-sign-in path on the
+ * Convert page).
+ */
+
+const DOCX_EXTENSION = /\.docx$/i;
+
+export const DOCX_MIME_TYPE =
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Check whether a dropped/picked file looks like a Word document. Browsers
+ * often leave `type` empty for drag-and-drop, so the extension is enough.
+ */
+export function isDocxFile(file: { name: string; type?: string }): boolean {
+	return DOCX_EXTENSION.test(file.name) || file.type === DOCX_MIME_TYPE;
+}
+
+/**
+ * Derive a document title from a file name by dropping the .docx extension
+ */
+export function titleFromFileName(name: string): string {
+	const title = name.replace(DOCX_EXTENSION, '').trim();
+	return title || name;
+}
+
+/**
+ * Build a stable history/cache key for an uploaded file. Re-uploading the same
+ * file (same name, size and modification time) replaces its history entry
+ * instead of stacking duplicates. The `local-` prefix keeps these keys from
+ * ever colliding with Drive document IDs.
+ */
+export function localDocumentId(file: { name: string; size: number; lastModified: number }): string {
+	// 32-bit FNV-1a over the identifying fields — short, URL-safe, deterministic.
+	const key = `${file.name}\u0000${file.size}\u0000${file.lastModified}`;
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < key.length; i++) {
+		hash ^= key.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return `local-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Run normalisation between parsing and rendering.
+ *
+ * .docx exports split text into many runs (spell-check marks, revision
+ * session ids, font hints), so neighbouring runs often carry identical
+ * styling. Rendering each run on its own produces `**foo****bar**`, which
+ * markdown renderers misread; merging the runs first gives `**foobar**`.
+ */
+
+import type {
+	GoogleDocsDocument,
+	ParagraphElement,
+	StructuralElement,
+	TextRun
+} from '$lib/types/google';
+
+/**
+ * Return a copy of `doc` in which adjacent text runs with the same style,
+ * link and suggestion ids are merged into one, in the body, table cells and
+ * footnotes. Text and offsets are unchanged; only run boundaries move.
+ */
+export function normalizeRuns(doc: GoogleDocsDocument): GoogleDocsDocument {
+	const footnotes = doc.footnotes
+		? Object.fromEntries(
+				Object.entries(doc.footnotes).map(([id, footnote]) => [
+					id,
+					{ ...footnote, content: normalizeContent(footnote.content) }
+				])
+			)
+		: undefined;
+	return {
+		...doc,
+		body: { ...doc.body, content: normalizeContent(doc.body.content) },
+		...(footnotes ? { footnotes } : {})
+	};
+}
+
+function normalizeContent(content: StructuralElement[]): StructuralElement[] {
+	return content.map((element) => {
+		if (element.paragraph) {
+			return {
+				...element,
+				paragraph: { ...element.paragraph, elements: mergeRuns(element.paragraph.elements) }
+			};
+		}
+		if (element.table) {
+			return {
+				...element,
+				table: {
+					...element.table,
+					tableRows: element.table.tableRows.map((row) => ({
+						...row,
+						tableCells: row.tableCells.map((cell) => ({
+							...cell,
+							content: normalizeContent(cell.content)
+						}))
+					}))
+				}
+			};
+		}
+		return element;
+	});
+}
+
+function mergeRuns(elements: ParagraphElement[]): ParagraphElement[] {
+	const out: ParagraphElement[] = [];
+	for (const element of elements) {
+		const previous = out[out.length - 1];
+		const run = element.textRun;
+		if (previous?.textRun && run && sameFormatting(previous.textRun, run)) {
+			out[out.length - 1] = {
+				...previous,
+				endIndex: element.endIndex,
+				textRun: { ...previous.textRun, content: previous.textRun.content + run.content }
+			};
+		} else {
+			out.push(element);
+		}
+	}
+	return out;
+}
+
+function sameFormatting(a: TextRun, b: TextRun): boolean {
+	return (
+		deepEqual(a.textStyle ?? {}, b.textStyle ?? {}) &&
+		deepEqual(a.suggestedInsertionIds ?? [], b.suggestedInsertionIds ?? []) &&
+		deepEqual(a.suggestedDeletionIds ?? [], b.suggestedDeletionIds ?? [])
+	);
+}
+
+/** Structural equality for JSON-like values; absent and undefined keys match. */
+function deepEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+	if (Array.isArray(a) !== Array.isArray(b)) return false;
+	const left = a as Record<string, unknown>;
+	const right = b as Record<string, unknown>;
+	const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+	for (const key of keys) {
+		if (!deepEqual(left[key], right[key])) return false;
+	}
+	return true;
+}
@@ -1,54 +1,176 @@
 /**
  * Page estimation and filtering for Google Docs documents.
- * Approximates page boundaries by splitting at paragraph boundaries
- * every ~3000 characters. Hard page breaks force a boundary.
+ * When a .docx records where Word last broke its pages, those breaks are
+ * used. Otherwise page boundaries are approximated by splitting at paragraph
+ * boundaries every ~3000 characters, and hard page breaks force a boundary.
  */
 
 import type {
 	StructuralElement,
 	CommentThread,
+	DocumentStyle,
 	GoogleDocsDocument
 } from '$lib/types/google';
 
+/**
+ * How page boundaries were found: from Word's `<w:lastRenderedPageBreak/>`
+ * markers, or estimated from character counts.
+ */
+export type PageStrategy = 'rendered' | 'estimated';
+
 export interface PageBoundary {
 	pageNumber: number;
 	startElementIndex: number;
 	endElementIndex: number; // exclusive
 	charCount: number;
+	strategy: PageStrategy;
 }
 
 const DEFAULT_CHARS_PER_PAGE = 3000;
 
+// Text area in pt² of the page DEFAULT_CHARS_PER_PAGE is sized for: US
+// Letter with one-inch margins.
+const DEFAULT_TEXT_AREA = (612 - 144) * (792 - 144);
+const DEFAULT_MARGIN = 72;
+
+/**
+ * Characters per page for a document's page size and margins, scaling the
+ * default by the area left for text. Falls back to the default when the
+ * document has no page settings.
+ */
+export function getCharsPerPage(style: DocumentStyle | undefined): number {
+	if (!style?.pageSize) return DEFAULT_CHARS_PER_PAGE;
+	const width =
+		style.pageSize.width.magnitude -
+		(style.marginLeft?.magnitude ?? DEFAULT_MARGIN) -
+		(style.marginRight?.magnitude ?? DEFAULT_MARGIN);
+	const height =
+		style.pageSize.height.magnitude -
+		(style.marginTop?.magnitude ?? DEFAULT_MARGIN) -
+		(style.marginBottom?.magnitude ?? DEFAULT_MARGIN);
+	if (width <= 0 || height <= 0) return DEFAULT_CHARS_PER_PAGE;
+	return Math.round((DEFAULT_CHARS_PER_PAGE * width * height) / DEFAULT_TEXT_AREA);
+}
+
 /**
- * Check if a structural element contains a hard page break
+ * Where a paragraph's hard page break falls: `alone` when the paragraph holds
+ * no text besides it, `before` when it precedes all the text (the paragraph
+ * opens the next page), otherwise `after` (the paragraph ends its page).
+ * Undefined when there is no page break.
  */
-function hasPageBreak(element: StructuralElement): boolean {
-	if (!element.paragraph) return false;
-	return element.paragraph.elements.some((el) => 'pageBreak' in el);
+function getPageBreakPosition(
+	element: StructuralElement
+): 'alone' | 'before' | 'after' | undefined {
+	if (!element.paragraph) return undefined;
+	const elements = element.paragraph.elements;
+	const breakAt = elements.findIndex((el) => 'pageBreak' in el);
+	if (breakAt === -1) return undefined;
+	const textOf = (els: typeof elements) =>
+		els.map((pe) => pe.textRun?.content || '').join('').trim();
+	if (textOf(elements.slice(0, breakAt))) return 'after';
+	return textOf(elements.slice(breakAt + 1)) ? 'before' : 'alone';
+}
+
+/**
+ * Get the raw text of a structural element. Tables contribute the text of
+ * every cell in reading order.
+ */
+function getElementText(element: StructuralElement): string {
+	if (element.paragraph) {
+		return element.paragraph.elements
+			.map((pe) => pe.textRun?.content || '')
+			.join('');
+	}
+	if (element.table) {
+		return element.table.tableRows
+			.flatMap((row) => row.tableCells.flatMap((cell) => cell.content.map(getElementText)))
+			.join('');
+	}
+	return '';
 }
 
 /**
  * Get the character count of a structural element's text content
  */
 function getElementCharCount(element: StructuralElement): number {
-	if (!element.paragraph) return 0;
-	return element.paragraph.elements.reduce((sum, el) => {
-		if (el.textRun) return sum + el.textRun.content.length;
-		return sum;
-	}, 0);
+	return getElementText(element).length;
+}
+
+/**
+ * Where Word's last layout began a page within an element: for each page
+ * break, `true` when it falls at the very start of the element. A row that
+ * starts a page carries a marker in each cell, so a table counts at most
+ * one break per row.
+ */
+function getRenderedBreaks(element: StructuralElement): boolean[] {
+	if (element.paragraph) {
+		return (element.paragraph.renderedPageBreaks ?? []).map((offset) => offset === 0);
+	}
+	if (element.table) {
+		return element.table.tableRows.flatMap((row, r) => {
+			const breaks = row.tableCells.flatMap((cell) => cell.content.flatMap(getRenderedBreaks));
+			if (breaks.length === 0) return [];
+			const first = row.tableCells[0]?.content[0];
+			return [r === 0 && !!first && getRenderedBreaks(first)[0] === true];
+		});
+	}
+	return [];
+}
+
+/**
+ * Page boundaries from Word's recorded page breaks. An element that a page
+ * break falls inside belongs to the pages on both sides of it.
+ */
+function renderedPages(elements: StructuralElement[]): PageBoundary[] {
+	const pages: PageBoundary[] = [];
+	let start = 0;
+	const closePage = (end: number) => {
+		pages.push({
+			pageNumber: pages.length + 1,
+			startElementIndex: start,
+			endElementIndex: end,
+			charCount: elements.slice(start, end).reduce((sum, el) => sum + getElementCharCount(el), 0),
+			strategy: 'rendered'
+		});
+	};
+
+	for (let i = 0; i < elements.length; i++) {
+		for (const atStart of getRenderedBreaks(elements[i])) {
+			if (atStart) {
+				if (i > start) closePage(i);
+			} else {
+				closePage(i + 1);
+			}
+			start = i;
+		}
+	}
+	closePage(elements.length);
+	return pages;
 }
 
 /**
  * Estimate page boundaries from structural elements.
- * Splits at paragraph boundaries every ~charsPerPage characters.
- * Hard page breaks force a boundary regardless of character count.
+ * Uses Word's recorded page breaks when any element has them. Otherwise
+ * splits at paragraph boundaries every ~charsPerPage characters, and hard
+ * page breaks force a boundary regardless of character count.
  */
 export function estimatePages(
 	elements: StructuralElement[],
 	charsPerPage: number = DEFAULT_CHARS_PER_PAGE
 ): PageBoundary[] {
 	if (elements.length === 0) {
-		return [{ pageNumber: 1, startElementIndex: 0, endElementIndex: 0, charCount: 0 }];
+		return [
+			{
+				pageNumber: 1,
+				startElementIndex: 0,
+				endElementIndex: 0,
+				charCount: 0,
+				strategy: 'estimated'
+			}
+		];
+	}
+	if (elements.some((element) => getRenderedBreaks(element).length > 0)) {
+		return renderedPages(elements);
 	}
 
 	const pages: PageBoundary[] = [];
@@ -56,25 +178,35 @@ export function estimatePages(
 	let currentCharCount = 0;
 	let pageNumber = 1;
 
+	const closePage = (endElementIndex: number) => {
+		pages.push({
+			pageNumber,
+			startElementIndex: currentPageStart,
+			endElementIndex,
+			charCount: currentCharCount,
+			strategy: 'estimated'
+		});
+		pageNumber++;
+	};
+
 	for (let i = 0; i < elements.length; i++) {
 		const element = elements[i];
+		const pageBreak = getPageBreakPosition(element);
 
 		// Hard page break forces a new page
-		if (hasPageBreak(element)) {
+		if (pageBreak === 'alone') {
 			// Close current page (don't include the page break element itself)
-			if (currentPageStart < i || currentCharCount > 0) {
-				pages.push({
-					pageNumber,
-					startElementIndex: currentPageStart,
-					endElementIndex: i,
-					charCount: currentCharCount
-				});
-				pageNumber++;
-			}
+			if (currentPageStart < i || currentCharCount > 0) closePage(i);
 			currentPageStart = i + 1;
 			currentCharCount = 0;
 			continue;
 		}
+		if (pageBreak === 'before') {
+			// The paragraph's text starts the next page
+			if (currentPageStart < i || currentCharCount > 0) closePage(i);
+			currentPageStart = i;
+			currentCharCount = 0;
+		}
 
 		const charCount = getElementCharCount(element);
 		currentCharCount += charCount;
@@ -87,12 +219,20 @@ export function estimatePages(
 				pageNumber,
 				startElementIndex: currentPageStart,
 				endElementIndex: i,
-				charCount: currentCharCount - charCount
+				charCount: currentCharCount - charCount,
+				strategy: 'estimated'
 			});
 			pageNumber++;
 			currentPageStart = i;
 			currentCharCount = charCount;
 		}
+
+		if (pageBreak === 'after') {
+			// The paragraph's text ends its page
+			closePage(i + 1);
+			currentPageStart = i + 1;
+			currentCharCount = 0;
+		}
 	}
 
 	// Close final page
@@ -101,7 +241,8 @@ export function estimatePages(
 			pageNumber,
 			startElementIndex: currentPageStart,
 			endElementIndex: elements.length,
-			charCount: currentCharCount
+			charCount: currentCharCount,
+			strategy: 'estimated'
 		});
 	}
 
@@ -113,6 +254,7 @@ export interface FilterResult {
 	totalPages: number;
 	startPage: number;
 	endPage: number;
+	strategy: PageStrategy;
 }
 
 /**
@@ -144,18 +286,23 @@ export function filterByPageRange(
 		(p) => p.pageNumber >= clampedStart && p.pageNumber <= endPage
 	);
 
+	// Pages from Word's layout share the element a page break falls inside;
+	// keep it once.
 	const filteredElements: StructuralElement[] = [];
+	let next = 0;
 	for (const page of selectedPages) {
-		for (let i = page.startElementIndex; i < page.endElementIndex; i++) {
+		for (let i = Math.max(next, page.startElementIndex); i < page.endElementIndex; i++) {
 			filteredElements.push(elements[i]);
 		}
+		next = Math.max(next, page.endElementIndex);
 	}
 
 	return {
 		elements: filteredElements,
 		totalPages,
 		startPage: clampedStart,
-		endPage
+		endPage,
+		strategy: pages[0].strategy
 	};
 }
 
@@ -163,14 +310,7 @@ export function filterByPageRange(
  * Extract all text content from structural elements
  */
 function extractAllText(elements: StructuralElement[]): string {
-	return elements
-		.map((el) => {
-			if (!el.paragraph) return '';
-			return el.paragraph.elements
-				.map((pe) => pe.textRun?.content || '')
-				.join('');
-		})
-		.join('');
+	return elements.map(getElementText).join('');
 }
 
 export interface TruncateResult {
@@ -178,14 +318,18 @@ export interface TruncateResult {
 	threads: CommentThread[];
 	totalPages: number;
 	pageRange: { start: number; end: number };
+	pageStrategy: PageStrategy;
 }
 
 /**
- * Truncate a parsed document to the requested page range.
+ * Truncate a parsed document to the requested page range. Without an
+ * explicit `charsPerPage`, estimated pages are sized to the document's page
+ * settings.
  *
  * Returns a new `doc` with `body.content` sliced to the kept paragraphs and
  * a `threads` array containing only the threads whose anchor lies inside
- * the kept slice (with `anchorParaIndex` remapped to the new 0-based index).
+ * the kept slice (with `anchorParaIndex` remapped to the new 0-based index;
+ * a range running past the slice is cut off at its end).
  *
  * Threads whose `anchorParaIndex` is **outside** the kept slice are
  * dropped entirely — never rehomed onto an earlier paragraph by substring
@@ -204,18 +348,35 @@ export function truncateByPageRange(
 	threads: CommentThread[],
 	startPage: number,
 	pageCount: number | undefined,
-	charsPerPage: number = DEFAULT_CHARS_PER_PAGE
+	charsPerPage: number = getCharsPerPage(doc.documentStyle)
 ): TruncateResult {
-	const { elements, totalPages, startPage: actualStart, endPage } = filterByPageRange(
+	const { elements, totalPages, startPage: actualStart, endPage, strategy } = filterByPageRange(
 		doc.body.content,
 		startPage,
 		pageCount,
 		charsPerPage
 	);
 
+	return {
+		...truncateToElements(doc, threads, elements),
+		totalPages,
+		pageRange: { start: actualStart, end: endPage },
+		pageStrategy: strategy
+	};
+}
+
+/**
+ * Cut a document down to `elements`, a subsequence of `doc.body.content`,
+ * keeping only the threads anchored inside it (see `truncateByPageRange`).
+ */
+export function truncateToElements(
+	doc: GoogleDocsDocument,
+	threads: CommentThread[],
+	elements: StructuralElement[]
+): { doc: GoogleDocsDocument; threads: CommentThread[] } {
 	// Map original element index → kept-slice index by reference identity.
-	// `filterByPageRange` returns references copied from `doc.body.content`,
-	// so identity comparison is safe and cheap.
+	// `elements` holds references copied from `doc.body.content`, so
+	// identity comparison is safe and cheap.
 	const originalIndexByElement = new Map<StructuralElement, number>();
 	for (let i = 0; i < doc.body.content.length; i++) {
 		originalIndexByElement.set(doc.body.content[i], i);
@@ -229,7 +390,8 @@ export function truncateByPageRange(
 	const keptText = extractAllText(elements);
 
 	const kept = threads.filter((thread) => {
-		if (!thread.quotedText) return false;
+		// Point comments have no quote, but keep their position.
+		if (!thread.quotedText && thread.anchorStartOffset === undefined) return false;
 		if (thread.anchorParaIndex !== undefined) {
 			return remappedIndexByOriginal.has(thread.anchorParaIndex);
 		}
@@ -245,13 +407,26 @@ export function truncateByPageRange(
 		if (thread.anchorParaIndex !== undefined) {
 			base.anchorParaIndex = remappedIndexByOriginal.get(thread.anchorParaIndex)!;
 		}
+		if (thread.anchorEndParaIndex !== undefined) {
+			const end = remappedIndexByOriginal.get(thread.anchorEndParaIndex);
+			if (end !== undefined) {
+				base.anchorEndParaIndex = end;
+			} else {
+				// The range ends outside the kept elements: cover through the
+				// last kept element before its end.
+				let last = base.anchorParaIndex!;
+				for (const [orig, kept] of remappedIndexByOriginal) {
+					if (orig < thread.anchorEndParaIndex) last = Math.max(last, kept);
+				}
+				base.anchorEndParaIndex = last;
+				delete base.anchorEndOffset;
+			}
+		}
 		return base;
 	});
 
 	return {
 		doc: { ...doc, body: { content: elements } },
-		threads: remapped,
-		totalPages,
-		pageRange: { start: actualStart, end: endPage }
+		threads: remapped
 	};
 }
@@ -0,0 +1,137 @@
+/**
+ * Heading-based section selection, an alternative to page ranges: "just the
+ * Risks section" instead of "pages 4–6".
+ *
+ * A section is a `HEADING_*` paragraph and everything after it up to the
+ * next heading of equal or higher level. Sections are named by heading path,
+ * the heading texts from the outermost enclosing heading down, written
+ * `Design > Risks`.
+ */
+
+import type { CommentThread, GoogleDocsDocument, StructuralElement } from '$lib/types/google';
+import { truncateToElements } from '$lib/utils/pagination';
+
+export interface OutlineEntry {
+	/** Heading texts from the outermost enclosing heading down to this one. */
+	path: string[];
+	/** Heading level, 1–6. */
+	level: number;
+	/** Index of the heading in `body.content`. */
+	startElementIndex: number;
+	/** Exclusive end of the section: the next heading of equal or higher level. */
+	endElementIndex: number;
+}
+
+const HEADING_RE = /^HEADING_([1-6])$/;
+const PATH_SEPARATOR = '>';
+
+/**
+ * The document's headings in order, each with its path and the extent of
+ * its section.
+ */
+export function getOutline(doc: GoogleDocsDocument): OutlineEntry[] {
+	const content = doc.body.content;
+	const entries: OutlineEntry[] = [];
+	const open: OutlineEntry[] = [];
+
+	content.forEach((element, index) => {
+		const level = getHeadingLevel(element);
+		if (level === undefined) return;
+		while (open.length > 0 && open[open.length - 1].level >= level) {
+			open.pop()!.endElementIndex = index;
+		}
+		const entry: OutlineEntry = {
+			path: [...(open[open.length - 1]?.path ?? []), getHeadingText(element)],
+			level,
+			startElementIndex: index,
+			endElementIndex: content.length
+		};
+		entries.push(entry);
+		open.push(entry);
+	});
+
+	return entries;
+}
+
+/**
+ * Number of threads anchored inside a section, its subsections included,
+ * by `anchorParaIndex`: the threads `truncateBySections` would keep for it.
+ * Threads without a recorded paragraph aren't counted.
+ */
+export function countSectionThreads(entry: OutlineEntry, threads: CommentThread[]): number {
+	return threads.filter(
+		(thread) =>
+			(thread.quotedText || thread.anchorStartOffset !== undefined) &&
+			thread.anchorParaIndex !== undefined &&
+			thread.anchorParaIndex >= entry.startElementIndex &&
+			thread.anchorParaIndex < entry.endElementIndex
+	).length;
+}
+
+/** Split `Design > Risks` into its heading texts. */
+export function parseSectionPath(text: string): string[] {
+	return text
+		.split(PATH_SEPARATOR)
+		.map((part) => part.trim())
+		.filter((part) => part);
+}
+
+export function formatSectionPath(path: string[]): string {
+	return path.join(` ${PATH_SEPARATOR} `);
+}
+
+/**
+ * Whether an outline entry is named by `path`. The path may leave out
+ * outer headings (`Risks` names `Design > Risks`), and matching ignores
+ * case.
+ */
+export function sectionMatchesPath(entry: OutlineEntry, path: string[]): boolean {
+	if (path.length === 0 || path.length > entry.path.length) return false;
+	const tail = entry.path.slice(entry.path.length - path.length);
+	return tail.every((text, i) => text.toLowerCase() === path[i].toLowerCase());
+}
+
+/**
+ * Truncate a parsed document to the sections named by `paths`, in document
+ * order. Every section a path names is kept, and overlapping sections are
+ * kept once.
+ *
+ * Threads are dropped or remapped exactly as `truncateByPageRange` does:
+ * only threads anchored inside a kept section remain, never rehomed onto
+ * another paragraph that happens to contain their quote.
+ *
+ * Throws when a path names no heading.
+ */
+export function truncateBySections(
+	doc: GoogleDocsDocument,
+	threads: CommentThread[],
+	paths: string[][]
+): { doc: GoogleDocsDocument; threads: CommentThread[] } {
+	const outline = getOutline(doc);
+	const keep = new Set<number>();
+	for (const path of paths) {
+		const sections = outline.filter((entry) => sectionMatchesPath(entry, path));
+		if (sections.length === 0) {
+			throw new Error(`No heading matches "${formatSectionPath(path)}"`);
+		}
+		for (const section of sections) {
+			for (let i = section.startElementIndex; i < section.endElementIndex; i++) keep.add(i);
+		}
+	}
+
+	const elements = doc.body.content.filter((_, index) => keep.has(index));
+	return truncateToElements(doc, threads, elements);
+}
+
+function getHeadingLevel(element: StructuralElement): number | undefined {
+	const match = HEADING_RE.exec(element.paragraph?.paragraphStyle?.namedStyleType ?? '');
+	return match ? Number(match[1]) : undefined;
+}
+
+function getHeadingText(element: StructuralElement): string {
+	return (element.paragraph?.elements ?? [])
+		.map((pe) => pe.textRun?.content ?? '')
+		.join('')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
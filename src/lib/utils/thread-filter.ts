@@ -0,0 +1,109 @@
+/**
+ * Thread filtering ahead of rendering: leave out resolved threads, keep only
+ * what one reviewer said, or only the last week's threads. Filtered-out
+ * threads are dropped before the transformer sees them, so their anchors
+ * never render and the remaining ones are numbered without gaps.
+ */
+
+import type { CommentThread, ThreadComment } from '$lib/types/google';
+
+export interface ThreadFilter {
+	/** Which threads to keep by resolution. Defaults to `all`. */
+	status?: 'all' | 'open' | 'resolved';
+	/**
+	 * Keep only threads with a comment (opening or reply) by one of these
+	 * authors, matched by name or email, ignoring case. The email is the one
+	 * comment headers show: the comment's own, else the author's alias.
+	 */
+	includeAuthors?: string[];
+	/** Drop threads opened by one of these authors. */
+	excludeAuthors?: string[];
+	/**
+	 * Keep only threads opened at or after this ISO date or time. Threads
+	 * without a date are dropped while either bound is set.
+	 */
+	createdAfter?: string;
+	/** Keep only threads opened before this ISO date or time. */
+	createdBefore?: string;
+	/** Keep only threads with at least one reply. */
+	hasReplies?: boolean;
+}
+
+/** Whether the filter keeps every thread. */
+export function isEmptyThreadFilter(filter: ThreadFilter): boolean {
+	return (
+		(filter.status ?? 'all') === 'all' &&
+		!filter.includeAuthors?.length &&
+		!filter.excludeAuthors?.length &&
+		!filter.createdAfter &&
+		!filter.createdBefore &&
+		!filter.hasReplies
+	);
+}
+
+/**
+ * Keep the threads that pass every condition of `filter`. `authorEmails` is
+ * the name → email alias map used for comment headers
+ * (`CommentFormatOptions.authorEmails`), so authors match by the same email.
+ */
+export function filterThreads(
+	threads: CommentThread[],
+	filter: ThreadFilter,
+	authorEmails: Record<string, string> = {}
+): CommentThread[] {
+	const after = filter.createdAfter ? Date.parse(filter.createdAfter) : undefined;
+	const before = filter.createdBefore ? Date.parse(filter.createdBefore) : undefined;
+	const includes = normalizeAuthors(filter.includeAuthors);
+	const excludes = normalizeAuthors(filter.excludeAuthors);
+
+	return threads.filter((thread) => {
+		const [opening] = thread.comments;
+		if (filter.status === 'open' && thread.resolved) return false;
+		if (filter.status === 'resolved' && !thread.resolved) return false;
+		if (includes.size > 0 && !thread.comments.some((c) => isAuthor(c, includes, authorEmails))) {
+			return false;
+		}
+		if (excludes.size > 0 && opening && isAuthor(opening, excludes, authorEmails)) return false;
+		if (filter.hasReplies && !thread.comments.some((c) => c.isReply)) return false;
+		if (after !== undefined || before !== undefined) {
+			const created = opening?.createdAt ? Date.parse(opening.createdAt) : NaN;
+			if (Number.isNaN(created)) return false;
+			if (after !== undefined && created < after) return false;
+			if (before !== undefined && created >= before) return false;
+		}
+		return true;
+	});
+}
+
+/**
+ * A short description of what the filter keeps, e.g. "open · by Dana ·
+ * from 2026-03-01", or an empty string when it keeps everything.
+ */
+export function describeThreadFilter(filter: ThreadFilter): string {
+	const parts: string[] = [];
+	if (filter.status && filter.status !== 'all') parts.push(filter.status);
+	if (filter.includeAuthors?.length) parts.push(`by ${filter.includeAuthors.join(', ')}`);
+	if (filter.excludeAuthors?.length) parts.push(`not opened by ${filter.excludeAuthors.join(', ')}`);
+	if (filter.createdAfter) parts.push(`from ${filter.createdAfter}`);
+	if (filter.createdBefore) parts.push(`before ${filter.createdBefore}`);
+	if (filter.hasReplies) parts.push('with replies');
+	return parts.join(' · ');
+}
+
+function normalizeAuthors(authors: string[] | undefined): Set<string> {
+	return new Set(
+		(authors ?? []).map((author) => author.trim().toLowerCase()).filter((author) => author)
+	);
+}
+
+function isAuthor(
+	comment: ThreadComment,
+	authors: Set<string>,
+	authorEmails: Record<string, string>
+): boolean {
+	const email = comment.authorEmail || authorEmails[comment.authorName] || '';
+	return (
+		authors.has(comment.authorName.trim().toLowerCase()) ||
+		(!!email && authors.has(email.trim().toLowerCase()))
+	);
+}
@@ -22,3 +22,55 @@ export function formatRelativeTime(timestamp: number): string {
 		year: 'numeric'
 	});
 }
+
+export const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+
+/**
+ * Format an ISO timestamp with a token pattern: `YYYY`, `MM`, `DD`, `HH`,
+ * `mm`, `ss`. Everything else is copied through. Uses `timeZone` (an IANA
+ * zone name, default UTC) so output doesn't depend on the machine it ran on.
+ * Returns an empty string for an unparseable timestamp.
+ */
+export function formatTimestamp(
+	iso: string,
+	format: string = DEFAULT_DATE_FORMAT,
+	timeZone: string = 'UTC'
+): string {
+	const date = new Date(iso);
+	if (isNaN(date.getTime())) return '';
+
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+		hour: '2-digit',
+		minute: '2-digit',
+		second: '2-digit',
+		hourCycle: 'h23'
+	}).formatToParts(date);
+	const part = (type: Intl.DateTimeFormatPartTypes) =>
+		parts.find((p) => p.type === type)?.value ?? '';
+
+	const tokens: Record<string, string> = {
+		YYYY: part('year'),
+		MM: part('month'),
+		DD: part('day'),
+		HH: part('hour'),
+		mm: part('minute'),
+		ss: part('second')
+	};
+	return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+/**
+ * Whether `timeZone` is an IANA zone name this runtime understands.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseAuthorAliases, formatAuthorAliases } from '$lib/utils/author-aliases';
+
+describe('parseAuthorAliases', () => {
+	it('reads one Name = email per line', () => {
+		expect(parseAuthorAliases('Sophia Smith = sophia@x.com\nSteve=steve@x.com')).toEqual({
+			'Sophia Smith': 'sophia@x.com',
+			Steve: 'steve@x.com'
+		});
+	});
+
+	it('skips blank and malformed lines', () => {
+		expect(parseAuthorAliases('\nno equals here\n = nobody@x.com\nAlex =\n')).toEqual({});
+	});
+
+	it('lets a later line for the same name win', () => {
+		expect(parseAuthorAliases('A = old@x.com\nA = new@x.com')).toEqual({ A: 'new@x.com' });
+	});
+});
+
+describe('formatAuthorAliases', () => {
+	it('round-trips through parseAuthorAliases', () => {
+		const aliases = { 'Sophia Smith': 'sophia@x.com', Steve: 'steve@x.com' };
+		expect(formatAuthorAliases(aliases)).toBe('Sophia Smith = sophia@x.com\nSteve = steve@x.com');
+		expect(parseAuthorAliases(formatAuthorAliases(aliases))).toEqual(aliases);
+	});
+});
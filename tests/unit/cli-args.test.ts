@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+	parseArgs,
+	globSegmentToRegExp,
+	outputPathFor,
+	findOutputCollisions
+} from '../../src/cli/args';
+
+describe('parseArgs', () => {
+	it('parses the documented convert invocation', () => {
+		const parsed = parseArgs([
+			'convert', 'review.docx', '-o', 'review.md', '--start-page', '3', '--pages', '5'
+		]);
+		expect(parsed).toEqual({
+			kind: 'convert',
+			options: {
+				inputs: ['review.docx'],
+				output: 'review.md',
+				startPage: 3,
+				pageCount: 5,
+				sections: [],
+				format: 'markdown',
+				threadFilter: {},
+				commentsOnly: false,
+				suggestionDigest: false,
+				timestamps: false,
+				embedImages: false,
+				plainStyles: [],
+				allowUnanchored: false
+			}
+		});
+	});
+
+	it('makes the convert subcommand optional', () => {
+		const parsed = parseArgs(['review.docx']);
+		expect(parsed.kind === 'convert' && parsed.options.inputs).toEqual(['review.docx']);
+	});
+
+	it('defaults to stdin when no inputs are given', () => {
+		const parsed = parseArgs(['convert']);
+		expect(parsed.kind === 'convert' && parsed.options.inputs).toEqual(['-']);
+	});
+
+	it('accepts --flag=value syntax', () => {
+		const parsed = parseArgs(['a.docx', '--start-page=2', '--title=Q3 review']);
+		expect(parsed.kind === 'convert' && parsed.options).toMatchObject({
+			startPage: 2,
+			title: 'Q3 review'
+		});
+	});
+
+	it('reads boolean flags', () => {
+		const parsed = parseArgs(['a.docx', '--suggestions', '--embed-images', '--allow-unanchored']);
+		expect(parsed.kind === 'convert' && parsed.options).toMatchObject({
+			suggestionDigest: true,
+			embedImages: true,
+			allowUnanchored: true
+		});
+	});
+
+	it('reads timestamp options and validates the time zone', () => {
+		const parsed = parseArgs(['a.docx', '--timestamps', '--date-format', 'DD/MM', '--time-zone=Europe/Berlin']);
+		expect(parsed.kind === 'convert' && parsed.options).toMatchObject({
+			timestamps: true,
+			dateFormat: 'DD/MM',
+			timeZone: 'Europe/Berlin'
+		});
+		expect(parseArgs(['a.docx', '--time-zone', 'Mars/Olympus']).kind).toBe('error');
+	});
+
+	it('reads the styles to render plain and rejects unknown ones', () => {
+		const parsed = parseArgs(['a.docx', '--plain', 'underline, highlight']);
+		expect(parsed.kind === 'convert' && parsed.options.plainStyles).toEqual([
+			'underline',
+			'highlight'
+		]);
+		expect(parseArgs(['a.docx', '--plain=bold']).kind).toBe('error');
+	});
+
+	it('collects section paths and keeps them apart from page ranges', () => {
+		const parsed = parseArgs(['a.docx', '--section', 'Design > Risks', '--section=Budget']);
+		expect(parsed.kind === 'convert' && parsed.options.sections).toEqual([
+			['Design', 'Risks'],
+			['Budget']
+		]);
+		expect(parseArgs(['a.docx', '--section', ' > ']).kind).toBe('error');
+		expect(parseArgs(['a.docx', '--section', 'Risks', '--pages', '2'])).toEqual({
+			kind: 'error',
+			message: '--section cannot be combined with --start-page or --pages'
+		});
+	});
+
+	it('builds a thread filter', () => {
+		const parsed = parseArgs([
+			'a.docx',
+			'--status', 'open',
+			'--author', 'Dana',
+			'--author=legal@x.com',
+			'--exclude-author', 'Bot',
+			'--after', '2026-03-01',
+			'--before=2026-03-08',
+			'--has-replies'
+		]);
+		expect(parsed.kind === 'convert' && parsed.options.threadFilter).toEqual({
+			status: 'open',
+			includeAuthors: ['Dana', 'legal@x.com'],
+			excludeAuthors: ['Bot'],
+			createdAfter: '2026-03-01',
+			createdBefore: '2026-03-08',
+			hasReplies: true
+		});
+		expect(parseArgs(['a.docx', '--status', 'closed']).kind).toBe('error');
+		expect(parseArgs(['a.docx', '--after', 'last week']).kind).toBe('error');
+	});
+
+	it('parses comments-only mode and its context', () => {
+		const parsed = parseArgs(['a.docx', '--comments-only', '--context', '0']);
+		expect(parsed.kind === 'convert' && parsed.options).toMatchObject({
+			commentsOnly: true,
+			contextParagraphs: 0
+		});
+		expect(parseArgs(['a.docx', '--comments-only', '--context', '-1']).kind).toBe('error');
+		expect(parseArgs(['a.docx', '--context', '2'])).toEqual({
+			kind: 'error',
+			message: '--context requires --comments-only'
+		});
+	});
+
+	it('parses the output format', () => {
+		const parsed = parseArgs(['a.docx', '--format', 'criticmarkup']);
+		expect(parsed.kind === 'convert' && parsed.options.format).toBe('criticmarkup');
+		expect(parseArgs(['a.docx', '--format=html'])).toEqual({
+			kind: 'error',
+			message: '--format takes one of: markdown, criticmarkup, footnotes'
+		});
+	});
+
+	it('returns help for -h / --help', () => {
+		expect(parseArgs(['--help'])).toEqual({ kind: 'help' });
+		expect(parseArgs(['convert', '-h'])).toEqual({ kind: 'help' });
+	});
+
+	it('rejects non-positive page numbers', () => {
+		expect(parseArgs(['a.docx', '--pages', '0']).kind).toBe('error');
+		expect(parseArgs(['a.docx', '--start-page', 'two']).kind).toBe('error');
+	});
+
+	it('rejects unknown options', () => {
+		const parsed = parseArgs(['a.docx', '--frobnicate']);
+		expect(parsed).toEqual({ kind: 'error', message: 'Unknown option: --frobnicate' });
+	});
+
+	it('rejects --output with several inputs or a glob', () => {
+		expect(parseArgs(['a.docx', 'b.docx', '-o', 'x.md']).kind).toBe('error');
+		expect(parseArgs(['*.docx', '-o', 'x.md']).kind).toBe('error');
+	});
+
+	it('rejects combining stdin with file inputs', () => {
+		expect(parseArgs(['-', 'a.docx']).kind).toBe('error');
+	});
+});
+
+describe('globSegmentToRegExp', () => {
+	it('matches * within a single segment', () => {
+		const re = globSegmentToRegExp('*.docx');
+		expect(re.test('review.docx')).toBe(true);
+		expect(re.test('review.docx.bak')).toBe(false);
+	});
+
+	it('matches ? and character classes', () => {
+		expect(globSegmentToRegExp('v?.docx').test('v2.docx')).toBe(true);
+		expect(globSegmentToRegExp('v[12].docx').test('v3.docx')).toBe(false);
+		expect(globSegmentToRegExp('v[!12].docx').test('v3.docx')).toBe(true);
+	});
+
+	it('treats regex metacharacters literally', () => {
+		expect(globSegmentToRegExp('a+b (1).docx').test('a+b (1).docx')).toBe(true);
+	});
+});
+
+describe('outputPathFor', () => {
+	it('writes next to the input by default', () => {
+		expect(outputPathFor('docs/review.docx')).toBe('docs/review.md');
+	});
+
+	it('writes into outDir when given', () => {
+		expect(outputPathFor('docs/review.DOCX', 'out/')).toBe('out/review.md');
+	});
+});
+
+describe('findOutputCollisions', () => {
+	it('reports inputs sharing a base name under outDir', () => {
+		expect(findOutputCollisions(['a/spec.docx', 'b/spec.docx', 'b/other.docx'], 'md')).toEqual([
+			{ input: 'b/spec.docx', earlier: 'a/spec.docx', target: 'md/spec.md' }
+		]);
+	});
+
+	it('finds none when outputs stay beside their inputs', () => {
+		expect(findOutputCollisions(['a/spec.docx', 'b/spec.docx'])).toEqual([]);
+	});
+});
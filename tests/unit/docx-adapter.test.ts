@@ -96,6 +96,52 @@ describe('parseDocx — paragraphs and text', () => {
 		expect(md).toContain('Hello world');
 	});
 
+	it('keeps tabs and line breaks and emits page breaks as their own elements', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t>Name</w:t><w:tab/><w:t>Value</w:t><w:br/><w:t>Next</w:t>' +
+					'<w:cr/><w:t>Last</w:t><w:br w:type="page"/><w:t>Over</w:t></w:r></w:p>'
+			)
+		});
+
+		const { doc } = parseDocx(buf);
+		const elements = doc.body.content[0].paragraph!.elements;
+		expect(elements.map((el) => (el.pageBreak ? 'pageBreak' : el.textRun?.content))).toEqual([
+			'Name\tValue\vNext\vLast',
+			'pageBreak',
+			'Over'
+		]);
+		// The page break occupies one index, as in the Docs API.
+		expect(doc.body.content[0].endIndex).toBe(26);
+	});
+
+	it("records Word's rendered page breaks and the section's page settings", () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t>Intro</w:t></w:r></w:p>' +
+					'<w:p><w:r><w:lastRenderedPageBreak/><w:t>Top</w:t></w:r>' +
+					'<w:r><w:t xml:space="preserve"> of page </w:t><w:lastRenderedPageBreak/>' +
+					'<w:t>three</w:t></w:r></w:p>' +
+					'<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>' +
+					'<w:pgMar w:top="1440" w:right="1080" w:bottom="1440" w:left="1080"/></w:sectPr>'
+			)
+		});
+
+		const { doc } = parseDocx(buf);
+		expect(doc.body.content[0].paragraph!.renderedPageBreaks).toBeUndefined();
+		expect(doc.body.content[1].paragraph!.renderedPageBreaks).toEqual([0, 12]);
+		expect(doc.documentStyle).toEqual({
+			pageSize: {
+				width: { magnitude: 595.3, unit: 'PT' },
+				height: { magnitude: 841.9, unit: 'PT' }
+			},
+			marginTop: { magnitude: 72, unit: 'PT' },
+			marginBottom: { magnitude: 72, unit: 'PT' },
+			marginLeft: { magnitude: 54, unit: 'PT' },
+			marginRight: { magnitude: 54, unit: 'PT' }
+		});
+	});
+
 	it('returns an empty threads array when there are no comments', () => {
 		const buf = buildDocx({
 			'word/document.xml': docXml(
@@ -236,6 +282,53 @@ describe('parseDocx — text formatting', () => {
 		expect(md).toContain('**_~~Hello~~_**');
 	});
 
+	it('extracts underline, super/subscript, font and highlight', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p>' +
+					'<w:r><w:rPr><w:u w:val="single"/></w:rPr><w:t>a</w:t></w:r>' +
+					'<w:r><w:rPr><w:u w:val="none"/></w:rPr><w:t>b</w:t></w:r>' +
+					'<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:t>c</w:t></w:r>' +
+					'<w:r><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/></w:rPr><w:t>d</w:t></w:r>' +
+					'<w:r><w:rPr><w:highlight w:val="yellow"/></w:rPr><w:t>e</w:t></w:r>' +
+					'<w:r><w:rPr><w:shd w:val="clear" w:color="auto" w:fill="FFFF00"/></w:rPr><w:t>f</w:t></w:r>' +
+					'<w:r><w:rPr><w:shd w:val="clear" w:color="auto" w:fill="auto"/></w:rPr><w:t>g</w:t></w:r>' +
+				'</w:p>'
+			)
+		});
+		const { doc } = parseDocx(buf);
+		const styles = doc.body.content[0].paragraph!.elements.map((el) => el.textRun?.textStyle);
+		expect(styles).toEqual([
+			{ underline: true },
+			undefined,
+			{ baselineOffset: 'SUPERSCRIPT' },
+			{ weightedFontFamily: { fontFamily: 'Consolas' } },
+			{ backgroundColor: 'yellow' },
+			{ backgroundColor: 'FFFF00' },
+			undefined
+		]);
+	});
+
+	it('renders the extra styles as <u>, code, <sub> and ==mark==', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p>' +
+					'<w:r><w:rPr><w:u w:val="single"/></w:rPr><w:t>Note</w:t></w:r>' +
+					'<w:r><w:t xml:space="preserve">: call </w:t></w:r>' +
+					'<w:r><w:rPr><w:rFonts w:ascii="Courier New"/></w:rPr><w:t>parse()</w:t></w:r>' +
+					'<w:r><w:t xml:space="preserve"> on H</w:t></w:r>' +
+					'<w:r><w:rPr><w:vertAlign w:val="subscript"/></w:rPr><w:t>2</w:t></w:r>' +
+					'<w:r><w:t xml:space="preserve">O </w:t></w:r>' +
+					'<w:r><w:rPr><w:highlight w:val="green"/></w:rPr><w:t>today</w:t></w:r>' +
+				'</w:p>'
+			)
+		});
+		const { doc, threads } = parseDocx(buf);
+		expect(transformToMarkdown(doc, threads)).toContain(
+			'<u>Note</u>: call `parse()` on H<sub>2</sub>O ==today=='
+		);
+	});
+
 	it('extracts hyperlink URL from document.xml.rels', () => {
 		const buf = buildDocx({
 			'word/document.xml': docXml(
@@ -374,6 +467,154 @@ describe('parseDocx — lists', () => {
 	});
 });
 
+describe('parseDocx — tables', () => {
+	function cell(text: string): string {
+		return `<w:tc><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:tc>`;
+	}
+
+	function tableXml(rows: string[][]): string {
+		return (
+			'<w:tbl>' +
+				rows.map((row) => '<w:tr>' + row.map(cell).join('') + '</w:tr>').join('') +
+			'</w:tbl>'
+		);
+	}
+
+	it('emits a single table StructuralElement with rows and cells', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				tableXml([
+					['ID', 'Requirement'],
+					['R1', 'Must export']
+				])
+			)
+		});
+		const { doc } = parseDocx(buf);
+		expect(doc.body.content).toHaveLength(1);
+		const table = doc.body.content[0].table!;
+		expect(table.rows).toBe(2);
+		expect(table.columns).toBe(2);
+		const secondRow = table.tableRows[1].tableCells;
+		expect(extractTextContent(secondRow[1].content[0].paragraph!.elements)).toBe('Must export');
+	});
+
+	it('keeps paragraphs around the table at their own body indexes', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t>Before</w:t></w:r></w:p>' +
+				tableXml([['a', 'b']]) +
+				'<w:p><w:r><w:t>After</w:t></w:r></w:p>'
+			)
+		});
+		const { doc } = parseDocx(buf);
+		expect(doc.body.content).toHaveLength(3);
+		expect(doc.body.content[1].table).toBeDefined();
+		expect(extractTextContent(doc.body.content[2].paragraph!.elements)).toBe('After');
+	});
+
+	it('renders a GFM pipe table through the transformer', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				tableXml([
+					['ID', 'Requirement'],
+					['R1', 'Must export']
+				])
+			)
+		});
+		const { doc, threads } = parseDocx(buf);
+		const md = transformToMarkdown(doc, threads);
+		expect(md).toContain('| ID | Requirement |\n| --- | --- |\n| R1 | Must export |');
+	});
+});
+
+describe('parseDocx — tracked-change suggestions', () => {
+	function commentsXmlFor(id: string, text: string): string {
+		return (
+			'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+			'<w:comments xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+				`<w:comment w:id="${id}" w:author="A" w:date="2026-04-20T00:00:00Z">` +
+					`<w:p><w:r><w:t>${text}</w:t></w:r></w:p>` +
+				'</w:comment>' +
+			'</w:comments>'
+		);
+	}
+
+	it('tags inserted runs and records the suggestion author and date', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p>' +
+					'<w:r><w:t xml:space="preserve">Keep </w:t></w:r>' +
+					'<w:ins w:id="7" w:author="Sophia" w:date="2026-03-04T14:02:00Z">' +
+						'<w:r><w:t>this</w:t></w:r>' +
+					'</w:ins>' +
+				'</w:p>'
+			)
+		});
+		const { doc } = parseDocx(buf);
+		const run = doc.body.content[0].paragraph!.elements[1].textRun!;
+		expect(run.content).toBe('this');
+		expect(run.suggestedInsertionIds).toEqual(['7']);
+		expect(doc.suggestions?.['7']).toEqual({
+			id: '7',
+			kind: 'insertion',
+			authorName: 'Sophia',
+			date: '2026-03-04T14:02:00Z'
+		});
+	});
+
+	it('keeps deleted text from <w:delText> as a deletion-tagged run', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p>' +
+					'<w:r><w:t xml:space="preserve">Keep </w:t></w:r>' +
+					'<w:del w:id="8" w:author="Steve" w:date="2026-03-05T09:00:00Z">' +
+						'<w:r><w:delText>that</w:delText></w:r>' +
+					'</w:del>' +
+				'</w:p>'
+			)
+		});
+		const { doc } = parseDocx(buf);
+		const run = doc.body.content[0].paragraph!.elements[1].textRun!;
+		expect(run.content).toBe('that');
+		expect(run.suggestedDeletionIds).toEqual(['8']);
+		expect(doc.suggestions?.['8'].kind).toBe('deletion');
+		expect(doc.suggestions?.['8'].authorName).toBe('Steve');
+	});
+
+	it('does not feed deleted text into a comment quote', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p>' +
+					'<w:commentRangeStart w:id="0"/>' +
+					'<w:r><w:t xml:space="preserve">old </w:t></w:r>' +
+					'<w:del w:id="8" w:author="Steve"><w:r><w:delText>gone </w:delText></w:r></w:del>' +
+					'<w:r><w:t>text</w:t></w:r>' +
+					'<w:commentRangeEnd w:id="0"/>' +
+				'</w:p>'
+			),
+			'word/comments.xml': commentsXmlFor('0', 'note')
+		});
+		const { threads } = parseDocx(buf);
+		expect(threads[0].quotedText).toBe('old text');
+	});
+
+	it('renders insertions and deletions inline through the transformer', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p>' +
+					'<w:r><w:t xml:space="preserve">The </w:t></w:r>' +
+					'<w:del w:id="1" w:author="Steve"><w:r><w:delText>quick</w:delText></w:r></w:del>' +
+					'<w:ins w:id="2" w:author="Sophia"><w:r><w:t>slow</w:t></w:r></w:ins>' +
+					'<w:r><w:t xml:space="preserve"> fox</w:t></w:r>' +
+				'</w:p>'
+			)
+		});
+		const { doc, threads } = parseDocx(buf);
+		const md = transformToMarkdown(doc, threads);
+		expect(md).toContain('The {--quick--}{++slow++} fox');
+	});
+});
+
 describe('parseDocx — comment ranges', () => {
 	function commentsXml(entries: Array<{ id: string; author: string; date?: string; paragraphs: string[] }>): string {
 		const comments = entries
@@ -422,6 +663,158 @@ describe('parseDocx — comment ranges', () => {
 		expect(threads[0].comments[0].isReply).toBe(false);
 	});
 
+	it('keeps tabs and line breaks in comment text', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:commentRangeStart w:id="0"/><w:r><w:t>target</w:t></w:r>' +
+					'<w:commentRangeEnd w:id="0"/></w:p>'
+			),
+			'word/comments.xml':
+				'<w:comments xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+				'<w:comment w:id="0" w:author="Alice"><w:p>' +
+				'<w:pPr><w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs></w:pPr>' +
+				'<w:r><w:t>Pros:</w:t><w:tab/><w:t>fast</w:t><w:br/><w:t>Cons: none</w:t></w:r>' +
+				'</w:p></w:comment></w:comments>'
+		});
+
+		const { threads } = parseDocx(buf);
+		expect(threads[0].comments[0].content).toBe('Pros:\tfast\nCons: none');
+	});
+
+	it('records where a range spanning several paragraphs ends', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t xml:space="preserve">Intro. </w:t></w:r>' +
+					'<w:commentRangeStart w:id="0"/>' +
+					'<w:r><w:t>First part</w:t></w:r></w:p>' +
+				'<w:p><w:r><w:t>Middle</w:t></w:r></w:p>' +
+				'<w:p><w:r><w:t>Last</w:t></w:r>' +
+					'<w:commentRangeEnd w:id="0"/>' +
+					'<w:r><w:t xml:space="preserve"> after.</w:t></w:r></w:p>'
+			),
+			'word/comments.xml': commentsXml([{ id: '0', author: 'Alice', paragraphs: ['Tighten'] }])
+		});
+
+		const { threads } = parseDocx(buf);
+		expect(threads[0]).toMatchObject({
+			quotedText: 'First part',
+			anchorParaIndex: 0,
+			anchorStartOffset: 7,
+			anchorEndParaIndex: 2,
+			anchorEndOffset: 4
+		});
+	});
+
+	it('records the start and end offsets of a range within its paragraph', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t xml:space="preserve">The </w:t></w:r>' +
+					'<w:commentRangeStart w:id="0"/>' +
+					'<w:r><w:rPr><w:b/></w:rPr><w:t>bold</w:t></w:r>' +
+					'<w:r><w:t xml:space="preserve"> claim</w:t></w:r>' +
+					'<w:commentRangeEnd w:id="0"/>' +
+					'<w:r><w:t xml:space="preserve"> here.</w:t></w:r></w:p>'
+			),
+			'word/comments.xml': commentsXml([{ id: '0', author: 'Alice', paragraphs: ['Source?'] }])
+		});
+
+		const { threads } = parseDocx(buf);
+		expect(threads[0]).toMatchObject({
+			quotedText: 'bold claim',
+			anchorParaIndex: 0,
+			anchorStartOffset: 4,
+			anchorEndOffset: 14
+		});
+		expect(threads[0].anchorEndParaIndex).toBeUndefined();
+	});
+
+	it('records the offset of a point comment (empty range)', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t>Title</w:t></w:r></w:p>' +
+				'<w:p><w:r><w:t xml:space="preserve">The deadline </w:t></w:r>' +
+					'<w:commentRangeStart w:id="0"/><w:commentRangeEnd w:id="0"/>' +
+					'<w:r><w:t>moves.</w:t></w:r></w:p>'
+			),
+			'word/comments.xml': commentsXml([{ id: '0', author: 'Alice', paragraphs: ['When?'] }])
+		});
+
+		const { threads } = parseDocx(buf);
+		expect(threads[0]).toMatchObject({ quotedText: '', anchorParaIndex: 1, anchorStartOffset: 13 });
+		expect(threads[0].anchorEndParaIndex).toBeUndefined();
+	});
+
+	it('moves a range end at the start of a paragraph back to the previous one', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:commentRangeStart w:id="0"/><w:r><w:t>One</w:t></w:r></w:p>' +
+				'<w:p><w:r><w:t>Two</w:t></w:r></w:p>' +
+				'<w:p><w:commentRangeEnd w:id="0"/><w:r><w:t>Three</w:t></w:r></w:p>' +
+				'<w:p><w:commentRangeStart w:id="1"/><w:r><w:t>Four</w:t></w:r></w:p>' +
+				'<w:p><w:commentRangeEnd w:id="1"/><w:r><w:t>Five</w:t></w:r></w:p>'
+			),
+			'word/comments.xml': commentsXml([
+				{ id: '0', author: 'Alice', paragraphs: ['Both'] },
+				{ id: '1', author: 'Bob', paragraphs: ['Just four'] }
+			])
+		});
+
+		const { threads } = parseDocx(buf);
+		expect(threads[0]).toMatchObject({ anchorEndParaIndex: 1, anchorEndOffset: 3 });
+		expect(threads[1].quotedText).toBe('Four');
+		expect(threads[1].anchorEndParaIndex).toBeUndefined();
+	});
+
+	it('keeps each comment\'s w:date as createdAt', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p>' +
+					'<w:commentRangeStart w:id="0"/>' +
+					'<w:r><w:t>target</w:t></w:r>' +
+					'<w:commentRangeEnd w:id="0"/>' +
+				'</w:p>'
+			),
+			'word/comments.xml': commentsXml([
+				{ id: '0', author: 'Alice', date: '2026-03-04T14:02:00Z', paragraphs: ['Stale?'] }
+			])
+		});
+
+		const { threads } = parseDocx(buf);
+		expect(threads[0].comments[0].createdAt).toBe('2026-03-04T14:02:00Z');
+	});
+
+	it('fills author emails from people.xml presence info', () => {
+		const peopleXml =
+			'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+			'<w15:people xmlns:w15="http://schemas.microsoft.com/office/word/2012/wordml">' +
+				'<w15:person w15:author="Alice">' +
+					'<w15:presenceInfo w15:providerId="AD" w15:userId="S::alice@corp.com::4c1b"/>' +
+				'</w15:person>' +
+				'<w15:person w15:author="Bob">' +
+					'<w15:presenceInfo w15:providerId="Windows Live" w15:userId="9f3a1c0e2b7d"/>' +
+				'</w15:person>' +
+			'</w15:people>';
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p>' +
+					'<w:commentRangeStart w:id="0"/><w:r><w:t>one</w:t></w:r><w:commentRangeEnd w:id="0"/>' +
+					'<w:commentRangeStart w:id="1"/><w:r><w:t>two</w:t></w:r><w:commentRangeEnd w:id="1"/>' +
+				'</w:p>'
+			),
+			'word/comments.xml': commentsXml([
+				{ id: '0', author: 'Alice', paragraphs: ['a'] },
+				{ id: '1', author: 'Bob', paragraphs: ['b'] }
+			]),
+			'word/people.xml': peopleXml
+		});
+
+		const { threads } = parseDocx(buf);
+		const byAuthor = Object.fromEntries(
+			threads.map((t) => [t.comments[0].authorName, t.comments[0].authorEmail])
+		);
+		expect(byAuthor).toEqual({ Alice: 'alice@corp.com', Bob: '' });
+	});
+
 	it('renders an anchored comment through the full pipeline', () => {
 		const buf = buildDocx({
 			'word/document.xml': docXml(
@@ -547,6 +940,95 @@ describe('parseDocx — comment ranges', () => {
 		const { threads } = parseDocx(buf);
 		expect(threads[0].quotedText).toBe('cell quote');
 	});
+
+	it('anchors ranges inside table cells to the table and places the thread after it', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t>Intro</w:t></w:r></w:p>' +
+				'<w:tbl>' +
+					'<w:tr>' +
+						'<w:tc><w:p><w:r><w:t>R1</w:t></w:r></w:p></w:tc>' +
+						'<w:tc>' +
+							'<w:p>' +
+								'<w:r><w:t xml:space="preserve">Must </w:t></w:r>' +
+								'<w:commentRangeStart w:id="0"/>' +
+								'<w:r><w:t>export</w:t></w:r>' +
+								'<w:commentRangeEnd w:id="0"/>' +
+							'</w:p>' +
+						'</w:tc>' +
+					'</w:tr>' +
+				'</w:tbl>'
+			),
+			'word/comments.xml': commentsXml([
+				{ id: '0', author: 'A', paragraphs: ['which format?'] }
+			])
+		});
+		const { doc, threads } = parseDocx(buf);
+		expect(threads[0].anchorParaIndex).toBe(1);
+		expect(threads[0].anchorCellParagraph).toBe(1);
+		expect(threads[0].anchorStartOffset).toBe(5);
+
+		const md = transformToMarkdown(doc, threads);
+		expect(md).toContain('| R1 | Must [export]^[c1] |');
+		expect(md.indexOf('> [c1] **A**')).toBeGreaterThan(md.indexOf('| R1 |'));
+		expect(md).not.toContain('Unanchored comments');
+	});
+
+	it('anchors a styled quote inside a cell', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:tbl>' +
+					'<w:tr><w:tc><w:p><w:r><w:t>Status</w:t></w:r></w:p></w:tc></w:tr>' +
+					'<w:tr>' +
+						'<w:tc>' +
+							'<w:p>' +
+								'<w:r><w:t xml:space="preserve">Ship </w:t></w:r>' +
+								'<w:commentRangeStart w:id="0"/>' +
+								'<w:r><w:rPr><w:b/></w:rPr><w:t>by</w:t></w:r>' +
+								'<w:r><w:t xml:space="preserve"> Friday</w:t></w:r>' +
+								'<w:commentRangeEnd w:id="0"/>' +
+							'</w:p>' +
+						'</w:tc>' +
+					'</w:tr>' +
+				'</w:tbl>'
+			),
+			'word/comments.xml': commentsXml([{ id: '0', author: 'A', paragraphs: ['Too soon'] }])
+		});
+		const { doc, threads } = parseDocx(buf);
+		const md = transformToMarkdown(doc, threads);
+		expect(md).toContain('| Ship [**by** Friday]^[c1] |');
+		expect(md).not.toContain('Unanchored comments');
+	});
+
+	it('numbers cell paragraphs through nested tables', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:tbl>' +
+					'<w:tr>' +
+						'<w:tc>' +
+							'<w:p><w:r><w:t>one</w:t></w:r></w:p>' +
+							'<w:tbl><w:tr><w:tc><w:p><w:r><w:t>inner</w:t></w:r></w:p></w:tc></w:tr></w:tbl>' +
+						'</w:tc>' +
+						'<w:tc>' +
+							'<w:p>' +
+								'<w:r><w:t xml:space="preserve">two </w:t></w:r>' +
+								'<w:commentRangeStart w:id="0"/>' +
+								'<w:r><w:t>runs</w:t></w:r>' +
+							'</w:p>' +
+							'<w:p><w:r><w:t>on</w:t></w:r><w:commentRangeEnd w:id="0"/></w:p>' +
+						'</w:tc>' +
+					'</w:tr>' +
+				'</w:tbl>'
+			),
+			'word/comments.xml': commentsXml([{ id: '0', author: 'A', paragraphs: ['Note'] }])
+		});
+		const [thread] = parseDocx(buf).threads;
+		expect(thread.anchorCellParagraph).toBe(2);
+		expect(thread.anchorStartOffset).toBe(4);
+		// The end lies in another cell paragraph, so the range covers its quote.
+		expect(thread.anchorEndOffset).toBeUndefined();
+		expect(thread.quotedText).toBe('runs');
+	});
 });
 
 describe('parseDocx — reply threading via commentsExtended.xml', () => {
@@ -919,3 +1401,223 @@ describe('parseDocx — merging comments with shared quotedText', () => {
 		expect(threads[0].comments).toHaveLength(3);
 	});
 });
+
+describe('parseDocx — footnotes and endnotes', () => {
+	function notesXml(tag: 'footnote' | 'endnote', notes: Record<string, string>): string {
+		const body = Object.entries(notes)
+			.map(
+				([id, inner]) =>
+					`<w:${tag} w:id="${id}"><w:p><w:r><w:${tag}Ref/></w:r>${inner}</w:p></w:${tag}>`
+			)
+			.join('');
+		return (
+			'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+			`<w:${tag}s xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">` +
+			`<w:${tag} w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:${tag}>` +
+			body +
+			`</w:${tag}s>`
+		);
+	}
+
+	const commentsXml =
+		'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+		'<w:comments xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+		'<w:comment w:id="0" w:author="Alice"><w:p><w:r><w:t>Cite the year</w:t></w:r></w:p></w:comment>' +
+		'</w:comments>';
+
+	it('emits footnote references and numbers them in reference order across both kinds', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t>Intro</w:t></w:r></w:p>' +
+				'<w:p>' +
+					'<w:r><w:t>Claim</w:t><w:endnoteReference w:id="1"/><w:t xml:space="preserve"> and more</w:t></w:r>' +
+					'<w:r><w:footnoteReference w:id="1"/></w:r>' +
+				'</w:p>'
+			),
+			'word/footnotes.xml': notesXml('footnote', {
+				'1': '<w:r><w:t xml:space="preserve"> A footnote.</w:t></w:r>'
+			}),
+			'word/endnotes.xml': notesXml('endnote', {
+				'1': '<w:r><w:t xml:space="preserve"> An endnote.</w:t></w:r>'
+			})
+		});
+
+		const { doc } = parseDocx(buf);
+		const elements = doc.body.content[1].paragraph!.elements;
+		expect(elements.map((e) => e.textRun?.content ?? e.footnoteReference)).toEqual([
+			'Claim',
+			{ footnoteId: 'endnote-1', footnoteNumber: '1' },
+			' and more',
+			{ footnoteId: '1', footnoteNumber: '2' }
+		]);
+		expect(Object.keys(doc.footnotes!).sort()).toEqual(['1', 'endnote-1']);
+		expect(extractTextContent(doc.footnotes!['1'].content[0].paragraph!.elements)).toBe(
+			' A footnote.'
+		);
+	});
+
+	it('skips separators and notes that are never referenced', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml('<w:p><w:r><w:t>No notes here</w:t></w:r></w:p>'),
+			'word/footnotes.xml': notesXml('footnote', { '1': '<w:r><w:t>orphan</w:t></w:r>' })
+		});
+		expect(parseDocx(buf).doc.footnotes).toBeUndefined();
+	});
+
+	it('anchors comment ranges inside a footnote to that footnote and its referencing paragraph', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t>Intro mentions 1999</w:t></w:r></w:p>' +
+				'<w:p><w:r><w:t>Claim</w:t></w:r><w:r><w:footnoteReference w:id="3"/></w:r></w:p>'
+			),
+			'word/footnotes.xml': notesXml('footnote', {
+				'3':
+					'<w:r><w:t xml:space="preserve"> Source: survey from </w:t></w:r>' +
+					'<w:commentRangeStart w:id="0"/><w:r><w:t>1999</w:t></w:r><w:commentRangeEnd w:id="0"/>'
+			}),
+			'word/comments.xml': commentsXml
+		});
+
+		const { doc, threads } = parseDocx(buf);
+		expect(threads[0]).toMatchObject({
+			quotedText: '1999',
+			anchorParaIndex: 1,
+			anchorFootnoteId: '3'
+		});
+
+		const md = transformToMarkdown(doc, threads);
+		expect(md).toContain('Intro mentions 1999\n');
+		expect(md).toContain('Claim[^1]');
+		expect(md).toContain('[^1]: Source: survey from [1999]^[c1]\n\n> [c1] **Alice**:\n> Cite the year');
+	});
+});
+
+describe('parseDocx — images', () => {
+	const IMAGE_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+
+	function relsXml(rels: Record<string, string>): string {
+		return (
+			'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+			'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+			Object.entries(rels)
+				.map(([id, target]) => {
+					const external = target.startsWith('http') ? ' TargetMode="External"' : '';
+					return `<Relationship Id="${id}" Type="${IMAGE_REL}" Target="${target}"${external}/>`;
+				})
+				.join('') +
+			'</Relationships>'
+		);
+	}
+
+	function drawing(rId: string, docPrAttrs: string): string {
+		return (
+			'<w:drawing>' +
+			'<wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">' +
+			`<wp:docPr id="1" name="Picture 1" ${docPrAttrs}/>` +
+			'<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData>' +
+			'<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+			`<pic:blipFill><a:blip r:embed="${rId}"/></pic:blipFill>` +
+			'</pic:pic></a:graphicData></a:graphic>' +
+			'</wp:inline>' +
+			'</w:drawing>'
+		);
+	}
+
+	it('emits an inline object with alt text, title and media path for a <w:drawing>', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t xml:space="preserve">See </w:t>' +
+					drawing('rId4', 'descr="Revenue chart" title="Q3"') +
+					'<w:t xml:space="preserve"> above</w:t></w:r></w:p>'
+			),
+			'word/_rels/document.xml.rels': relsXml({ rId4: 'media/image1.png' }),
+			'word/media/image1.png': 'PNGDATA'
+		});
+
+		const { doc, threads, media } = parseDocx(buf);
+		const elements = doc.body.content[0].paragraph!.elements;
+		expect(elements[1].inlineObjectElement).toEqual({ inlineObjectId: 'image-1' });
+		expect(doc.inlineObjects!['image-1'].inlineObjectProperties.embeddedObject).toEqual({
+			description: 'Revenue chart',
+			title: 'Q3',
+			imageProperties: { contentUri: 'media/image1.png' }
+		});
+		expect(new TextDecoder().decode(media['media/image1.png'])).toBe('PNGDATA');
+		expect(transformToMarkdown(doc, threads)).toContain(
+			'See ![Revenue chart](media/image1.png "Q3") above'
+		);
+	});
+
+	it('reads legacy VML pictures and resolves absolute targets', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:pict xmlns:v="urn:schemas-microsoft-com:vml">' +
+					'<v:shape alt="Logo"><v:imagedata r:id="rId2"/></v:shape>' +
+					'</w:pict></w:r></w:p>'
+			),
+			'word/_rels/document.xml.rels': relsXml({ rId2: '/word/media/logo.gif' }),
+			'word/media/logo.gif': 'GIF'
+		});
+
+		const { doc, media } = parseDocx(buf);
+		const elements = doc.body.content[0].paragraph!.elements;
+		expect(extractTextContent(elements, { inlineObjects: doc.inlineObjects })).toBe(
+			'![Logo](media/logo.gif)'
+		);
+		expect(Object.keys(media)).toEqual(['media/logo.gif']);
+	});
+
+	it('takes one picture from <mc:AlternateContent> and links external images by URL', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r>' +
+					'<mc:AlternateContent xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006">' +
+					`<mc:Choice Requires="wps">${drawing('rId9', 'descr="Map"')}</mc:Choice>` +
+					'<mc:Fallback><w:pict/></mc:Fallback>' +
+					'</mc:AlternateContent>' +
+					'</w:r></w:p>'
+			),
+			'word/_rels/document.xml.rels': relsXml({ rId9: 'https://example.com/map.png' })
+		});
+
+		const { doc, threads, media } = parseDocx(buf);
+		expect(Object.keys(doc.inlineObjects!)).toEqual(['image-1']);
+		expect(media).toEqual({});
+		expect(transformToMarkdown(doc, threads)).toContain('![Map](https://example.com/map.png)');
+	});
+
+	it('skips drawings without a picture relationship', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t>Shape:</w:t>' + drawing('rIdMissing', 'descr="Arrow"') + '</w:r></w:p>'
+			)
+		});
+
+		const { doc } = parseDocx(buf);
+		expect(doc.inlineObjects).toBeUndefined();
+		expect(doc.body.content[0].paragraph!.elements).toHaveLength(1);
+	});
+
+	it('anchors a comment on an image to the image', () => {
+		const buf = buildDocx({
+			'word/document.xml': docXml(
+				'<w:p><w:r><w:t xml:space="preserve">Figure: </w:t></w:r>' +
+					'<w:commentRangeStart w:id="0"/>' +
+					'<w:r>' + drawing('rId1', 'descr="Funnel"') + '</w:r>' +
+					'<w:commentRangeEnd w:id="0"/></w:p>'
+			),
+			'word/_rels/document.xml.rels': relsXml({ rId1: 'media/image1.png' }),
+			'word/comments.xml':
+				'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+				'<w:comments xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+				'<w:comment w:id="0" w:author="Alice"><w:p><w:r><w:t>Needs a legend</w:t></w:r></w:p></w:comment>' +
+				'</w:comments>'
+		});
+
+		const { doc, threads } = parseDocx(buf);
+		expect(threads[0].quotedText).toBe('![Funnel](media/image1.png)');
+		const md = transformToMarkdown(doc, threads);
+		expect(md).toContain('Figure: [![Funnel](media/image1.png)]^[c1]');
+		expect(md).not.toContain('Unanchored');
+	});
+});
@@ -0,0 +1,53 @@
+/**
+ * Document and thread fixtures shared by the export tests.
+ */
+
+import type { CommentThread, GoogleDocsDocument, StructuralElement } from '$lib/types/google';
+
+export function para(
+	text: string,
+	extra: Partial<StructuralElement['paragraph']> = {}
+): StructuralElement {
+	return {
+		startIndex: 0,
+		endIndex: 0,
+		paragraph: {
+			elements: [{ startIndex: 0, endIndex: 0, textRun: { content: text } }],
+			...extra
+		}
+	};
+}
+
+export function makeDoc(content: StructuralElement[], title = 'Spec'): GoogleDocsDocument {
+	return {
+		documentId: 'doc-1',
+		title,
+		body: { content },
+		lists: {
+			ol: { listProperties: { nestingLevels: [{ glyphFormat: '%0.' }] } }
+		}
+	};
+}
+
+export function thread(
+	id: string,
+	quotedText: string,
+	extra: Partial<CommentThread> = {}
+): CommentThread {
+	return {
+		id,
+		anchorId: `c${id}`,
+		quotedText,
+		resolved: false,
+		comments: [
+			{
+				authorName: 'Sophia',
+				authorEmail: 'sophia@x.com',
+				content: 'Check this',
+				isReply: false,
+				createdAt: '2026-03-04T14:02:00Z'
+			}
+		],
+		...extra
+	};
+}
@@ -131,6 +131,19 @@ describe('history store', () => {
 			expect(getHistoryState().entries[0].docId).toBe('doc-1');
 		});
 
+		it('keeps the thread filter an entry was converted with', () => {
+			addEntry(makeEntry({ threadFilter: { status: 'open', includeAuthors: ['Dana'] } }));
+			const stored = localStorageMock.setItem.mock.calls.at(-1)![1];
+
+			clearHistory();
+			localStorageMock.getItem.mockReturnValueOnce(stored);
+			restoreHistory();
+			expect(getEntryByDocId('doc-123')?.threadFilter).toEqual({
+				status: 'open',
+				includeAuthors: ['Dana']
+			});
+		});
+
 		it('handles missing data gracefully', () => {
 			localStorageMock.getItem.mockReturnValueOnce(null as unknown as string);
 			restoreHistory();
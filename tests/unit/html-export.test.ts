@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { transformToHtml } from '$lib/services/html-export';
+import type {
+	CommentThread,
+	GoogleDocsDocument,
+	StructuralElement,
+	TextRun
+} from '$lib/types/google';
+import { makeDoc, para, thread } from './fixtures';
+
+/** A paragraph of several runs. */
+function runs(...textRuns: TextRun[]): StructuralElement {
+	return {
+		startIndex: 0,
+		endIndex: 0,
+		paragraph: {
+			elements: textRuns.map((textRun) => ({ startIndex: 0, endIndex: 0, textRun }))
+		}
+	};
+}
+
+function render(doc: GoogleDocsDocument, threads: CommentThread[] = []): Document {
+	return new DOMParser().parseFromString(transformToHtml(doc, threads), 'text/html');
+}
+
+describe('transformToHtml', () => {
+	it('produces a self-contained page titled after the document', () => {
+		const doc = makeDoc([para('Hello\n')], 'Spec <draft>');
+		const html = transformToHtml(doc, []);
+		expect(html.startsWith('<!doctype html>')).toBe(true);
+		expect(html).toContain('<style>');
+		expect(html).toContain('<script>');
+		expect(html).not.toMatch(/<link|src="http/);
+
+		const page = render(doc);
+		expect(page.title).toBe('Spec <draft>');
+		expect(page.querySelector('article h1')?.textContent).toBe('Spec <draft>');
+		expect(page.querySelector('article p')?.textContent).toBe('Hello');
+	});
+
+	it('wraps anchors in marks linked to threads in the margin', () => {
+		const page = render(makeDoc([para('The plan starts here.\n')]), [
+			thread('1', 'plan', {
+				anchorParaIndex: 0,
+				comments: [
+					{ ...thread('1', 'plan').comments[0], content: 'Check <this>\nplease' },
+					{ authorName: 'Steve', authorEmail: '', content: 'Agreed', isReply: true }
+				]
+			})
+		]);
+		const mark = page.querySelector('article mark');
+		expect(mark?.textContent).toBe('plan');
+		expect(mark?.getAttribute('data-thread')).toBe('c1');
+
+		const card = page.querySelector('aside #thread-c1');
+		expect(card?.getAttribute('data-thread')).toBe('c1');
+		expect(card?.querySelectorAll('.comment')).toHaveLength(2);
+		expect(card?.querySelector('.comment.reply strong')?.textContent).toBe('Steve');
+		expect(card?.querySelector('.comment p:last-child')?.innerHTML).toBe(
+			'Check &lt;this&gt;<br>please'
+		);
+		expect(card?.querySelector('.meta')?.textContent).toBe('sophia@x.com');
+	});
+
+	it('shows dates and fallback emails as the options ask', () => {
+		const doc = makeDoc([para('The plan.\n')]);
+		const html = transformToHtml(
+			doc,
+			[thread('1', 'plan', { comments: [{ ...thread('1', '').comments[0], authorEmail: '' }] })],
+			{ timestamps: true, authorEmails: { Sophia: 'alias@x.com' } }
+		);
+		expect(html).toContain('<span class="meta">alias@x.com · 2026-03-04 14:02</span>');
+	});
+
+	it('marks point comments and each paragraph of a spanning range', () => {
+		const page = render(
+			makeDoc([para('Moves to Friday.\n'), para('Opens here\n'), para('Ends here\n')]),
+			[
+				thread('1', '', { anchorParaIndex: 0, anchorStartOffset: 9 }),
+				thread('2', 'Opens here', {
+					anchorParaIndex: 1,
+					anchorStartOffset: 0,
+					anchorEndParaIndex: 2,
+					anchorEndOffset: 4
+				})
+			]
+		);
+		const point = page.querySelector('mark.point');
+		expect(point?.getAttribute('data-thread')).toBe('c1');
+		expect(point?.parentElement?.textContent).toBe('Moves to Friday.');
+		expect(
+			[...page.querySelectorAll('mark[data-thread="c2"]')].map((m) => m.textContent)
+		).toEqual(['Opens here', 'Ends']);
+		expect(page.querySelectorAll('aside .thread')).toHaveLength(2);
+	});
+
+	it('renders headings, nested lists and tables', () => {
+		const cell = (text: string) => ({ startIndex: 0, endIndex: 0, content: [para(text)] });
+		const page = render(
+			makeDoc([
+				para('Intro\n', { paragraphStyle: { namedStyleType: 'HEADING_1' } }),
+				para('Step\n', { bullet: { listId: 'ol', nestingLevel: 0 } }),
+				para('Detail\n', { bullet: { listId: 'ul', nestingLevel: 1 } }),
+				para('Next step\n', { bullet: { listId: 'ol', nestingLevel: 0 } }),
+				{
+					startIndex: 0,
+					endIndex: 0,
+					table: {
+						rows: 2,
+						columns: 2,
+						tableRows: [
+							{ startIndex: 0, endIndex: 0, tableCells: [cell('A\n'), cell('B\n')] },
+							{ startIndex: 0, endIndex: 0, tableCells: [cell('1\n'), cell('2\n')] }
+						]
+					}
+				}
+			])
+		);
+		expect(page.querySelector('h2')?.textContent).toBe('Intro');
+		const items = page.querySelectorAll('article > ol > li');
+		expect(items).toHaveLength(2);
+		expect(items[0].querySelector('ul > li')?.textContent?.trim()).toBe('Detail');
+		const rows = [...page.querySelectorAll('table tr')].map((tr) =>
+			[...tr.querySelectorAll('td')].map((td) => td.textContent)
+		);
+		expect(rows).toEqual([
+			['A', 'B'],
+			['1', '2']
+		]);
+	});
+
+	it('renders suggested edits, links and run styling', () => {
+		const page = render(
+			makeDoc([
+				runs(
+					{ content: 'Run ', textStyle: { bold: true } },
+					{ content: 'npm test', textStyle: { weightedFontFamily: { fontFamily: 'Consolas' } } },
+					{ content: ' or ' },
+					{ content: 'read', textStyle: { italic: true, link: { url: 'https://x.com/?a=1&b' } } },
+					{ content: ' this', textStyle: { link: { url: 'javascript:alert(1)' } } },
+					{ content: ' now', suggestedDeletionIds: ['d1'] },
+					{ content: ' later', suggestedInsertionIds: ['i1'] },
+					{ content: '\n' }
+				)
+			])
+		);
+		expect(page.querySelector('article p')?.innerHTML).toBe(
+			'<strong>Run </strong><code>npm test</code> or ' +
+				'<a href="https://x.com/?a=1&amp;b"><em>read</em></a> this' +
+				'<del> now</del><ins> later</ins>'
+		);
+	});
+
+	it('splits marks at the plain-text offsets, keeping suggestions inside them', () => {
+		const page = render(
+			makeDoc([
+				runs(
+					{ content: 'Ship the ', textStyle: { bold: true } },
+					{ content: 'build on ' },
+					{ content: 'Monday', suggestedDeletionIds: ['d1'] },
+					{ content: 'Friday', suggestedInsertionIds: ['i1'] },
+					{ content: ' at noon.\n' }
+				)
+			]),
+			[thread('1', 'the build on Friday', { anchorParaIndex: 0 })]
+		);
+		expect(page.querySelector('article p')?.innerHTML).toBe(
+			'<strong>Ship </strong><mark data-thread="c1"><strong>the </strong>build on ' +
+				'<del>Monday</del><ins>Friday</ins></mark> at noon.'
+		);
+	});
+
+	it('keeps a paragraph that is all suggested deletion', () => {
+		const page = render(makeDoc([runs({ content: 'Drop me\n', suggestedDeletionIds: ['d1'] })]));
+		expect(page.querySelector('article p')?.innerHTML).toBe('<del>Drop me</del>');
+	});
+
+	it('escapes document text', () => {
+		const page = render(makeDoc([para('<script>alert(1)</script> & more\n')]));
+		expect(page.querySelector('article p')?.textContent).toBe('<script>alert(1)</script> & more');
+		expect(page.querySelectorAll('script')).toHaveLength(1);
+	});
+
+	it('lists threads that could not be anchored with their quote', () => {
+		const page = render(makeDoc([para('Nothing here.\n')]), [
+			thread('1', 'missing words', { anchorParaIndex: 0, resolved: true })
+		]);
+		expect(page.querySelector('article mark')).toBeNull();
+		const card = page.querySelector('aside .unanchored .thread');
+		expect(card?.querySelector('blockquote')?.textContent).toBe('missing words');
+		expect(card?.classList.contains('resolved')).toBe(true);
+		expect(card?.querySelector('.thread-label')?.textContent).toBe('c1 · resolved');
+	});
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildJsonExport,
+	transformToJson,
+	JSON_EXPORT_SCHEMA_VERSION
+} from '$lib/services/json-export';
+import { transformToMarkdown } from '$lib/services/transformer';
+import type { StructuralElement } from '$lib/types/google';
+import { makeDoc, para, thread } from './fixtures';
+
+describe('buildJsonExport', () => {
+	it('stamps the schema version and document identity', () => {
+		const out = buildJsonExport(makeDoc([para('Hello\n')]), []);
+		expect(out.schemaVersion).toBe(JSON_EXPORT_SCHEMA_VERSION);
+		expect(out.documentId).toBe('doc-1');
+		expect(out.title).toBe('Spec');
+		expect(out.paragraphs).toEqual([
+			{ index: 0, style: 'NORMAL_TEXT', text: 'Hello', anchors: [] }
+		]);
+	});
+
+	it('records heading style and list info', () => {
+		const out = buildJsonExport(
+			makeDoc([
+				para('Intro', { paragraphStyle: { namedStyleType: 'HEADING_1' } }),
+				para('Step', { bullet: { listId: 'ol', nestingLevel: 0 } }),
+				para('Point', { bullet: { listId: 'ul' } })
+			]),
+			[]
+		);
+		expect(out.paragraphs[0].style).toBe('HEADING_1');
+		expect(out.paragraphs[1].list).toEqual({ listId: 'ol', nestingLevel: 0, ordered: true });
+		expect(out.paragraphs[2].list).toEqual({ listId: 'ul', nestingLevel: 0, ordered: false });
+	});
+
+	it('gives inline anchor offsets into the plain paragraph text', () => {
+		const doc = makeDoc([
+			{
+				startIndex: 0,
+				endIndex: 0,
+				paragraph: {
+					elements: [
+						{ startIndex: 0, endIndex: 0, textRun: { content: 'The ' } },
+						{ startIndex: 0, endIndex: 0, textRun: { content: 'bold', textStyle: { bold: true } } },
+						{ startIndex: 0, endIndex: 0, textRun: { content: ' claim' } }
+					]
+				}
+			}
+		]);
+		const out = buildJsonExport(doc, [thread('9', 'bold claim', { anchorParaIndex: 0 })]);
+		expect(out.paragraphs[0].text).toBe('The bold claim');
+		expect(out.paragraphs[0].anchors).toEqual([{ anchorId: 'c1', start: 4, end: 14 }]);
+	});
+
+	it('uses the same anchor ids as the markdown output', () => {
+		const doc = makeDoc([para('First alpha'), para('Then beta')]);
+		const threads = [thread('7', 'beta'), thread('3', 'alpha')];
+		const out = buildJsonExport(doc, threads);
+		const md = transformToMarkdown(doc, threads);
+
+		expect(out.threads.map((t) => [t.quotedText, t.anchorId])).toEqual([
+			['alpha', 'c1'],
+			['beta', 'c2']
+		]);
+		expect(md).toContain('[alpha]^[c1]');
+		expect(md).toContain('[beta]^[c2]');
+	});
+
+	it('serializes threads with author and date', () => {
+		const out = buildJsonExport(makeDoc([para('alpha')]), [
+			thread('1', 'alpha', { anchorParaIndex: 0, resolved: true })
+		]);
+		expect(out.threads[0]).toEqual({
+			anchorId: 'c1',
+			quotedText: 'alpha',
+			anchorParaIndex: 0,
+			anchorEndParaIndex: null,
+			anchorFootnoteId: null,
+			resolved: true,
+			comments: [
+				{
+					authorName: 'Sophia',
+					authorEmail: 'sophia@x.com',
+					date: '2026-03-04T14:02:00Z',
+					content: 'Check this',
+					isReply: false
+				}
+			]
+		});
+	});
+
+	it('uses null for a missing anchorParaIndex or comment date', () => {
+		const legacy = thread('1', 'alpha');
+		delete legacy.comments[0].createdAt;
+		const out = buildJsonExport(makeDoc([para('alpha')]), [legacy]);
+		expect(out.threads[0].anchorParaIndex).toBeNull();
+		expect(out.threads[0].comments[0].date).toBeNull();
+		expect(out.paragraphs[0].anchors).toHaveLength(1);
+	});
+
+	it('lists table cell paragraphs under the table index with their cell position', () => {
+		const table: StructuralElement = {
+			startIndex: 0,
+			endIndex: 0,
+			table: {
+				rows: 1,
+				columns: 2,
+				tableRows: [
+					{
+						startIndex: 0,
+						endIndex: 0,
+						tableCells: [
+							{ startIndex: 0, endIndex: 0, content: [para('Name')] },
+							{ startIndex: 0, endIndex: 0, content: [para('Owner')] }
+						]
+					}
+				]
+			}
+		};
+		const out = buildJsonExport(makeDoc([para('Intro'), table]), [
+			thread('1', 'Owner', { anchorParaIndex: 1 })
+		]);
+		expect(out.paragraphs.slice(1)).toEqual([
+			{ index: 1, style: 'NORMAL_TEXT', text: 'Name', cell: { row: 0, column: 0 }, anchors: [] },
+			{
+				index: 1,
+				style: 'NORMAL_TEXT',
+				text: 'Owner',
+				cell: { row: 0, column: 1 },
+				anchors: [{ anchorId: 'c1', start: 0, end: 5 }]
+			}
+		]);
+	});
+
+	it('places threads in table cells by their recorded offsets', () => {
+		const cell = (text: string) => ({ startIndex: 0, endIndex: 0, content: [para(text)] });
+		const doc = makeDoc([
+			{
+				startIndex: 0,
+				endIndex: 0,
+				table: {
+					rows: 1,
+					columns: 2,
+					tableRows: [
+						{ startIndex: 0, endIndex: 0, tableCells: [cell('Ship it'), cell('test the test')] }
+					]
+				}
+			}
+		]);
+		const out = buildJsonExport(doc, [
+			thread('1', '', { anchorParaIndex: 0, anchorCellParagraph: 0, anchorStartOffset: 5 }),
+			thread('2', 'test', {
+				anchorParaIndex: 0,
+				anchorCellParagraph: 1,
+				anchorStartOffset: 9,
+				anchorEndOffset: 13
+			})
+		]);
+		expect(out.paragraphs.map((p) => p.anchors)).toEqual([
+			[{ anchorId: 'c1', start: 5, end: 5 }],
+			[{ anchorId: 'c2', start: 9, end: 13 }]
+		]);
+	});
+
+	it('lists footnote paragraphs after the body with their anchors', () => {
+		const doc = makeDoc([
+			{
+				startIndex: 0,
+				endIndex: 0,
+				paragraph: {
+					elements: [
+						{ startIndex: 0, endIndex: 0, textRun: { content: 'Claim' } },
+						{ startIndex: 0, endIndex: 0, footnoteReference: { footnoteId: '4', footnoteNumber: '1' } }
+					]
+				}
+			}
+		]);
+		doc.footnotes = { '4': { footnoteId: '4', content: [para(' Survey, 1999')] } };
+		const out = buildJsonExport(doc, [
+			thread('1', '1999', { anchorParaIndex: 0, anchorFootnoteId: '4' })
+		]);
+		expect(out.paragraphs[0]).toMatchObject({ text: 'Claim', anchors: [] });
+		expect(out.paragraphs[1]).toEqual({
+			index: 0,
+			style: 'NORMAL_TEXT',
+			text: ' Survey, 1999',
+			footnoteId: '4',
+			anchors: [{ anchorId: 'c1', start: 9, end: 13 }]
+		});
+		expect(out.threads[0].anchorFootnoteId).toBe('4');
+	});
+
+	it('marks continuation anchors on later paragraphs of a spanning range', () => {
+		const doc = makeDoc([para('Start here'), para('Middle'), para('End part')]);
+		const out = buildJsonExport(doc, [
+			thread('1', 'here', {
+				anchorParaIndex: 0,
+				anchorStartOffset: 6,
+				anchorEndParaIndex: 2,
+				anchorEndOffset: 3
+			})
+		]);
+		expect(out.paragraphs.map((p) => p.anchors)).toEqual([
+			[{ anchorId: 'c1', start: 6, end: 10 }],
+			[{ anchorId: 'c1', start: 0, end: 6, continuation: true }],
+			[{ anchorId: 'c1', start: 0, end: 3, continuation: true }]
+		]);
+		expect(out.threads[0].anchorEndParaIndex).toBe(2);
+	});
+
+	it('uses recorded offsets to pick the right occurrence of a repeated word', () => {
+		const out = buildJsonExport(makeDoc([para('a test of the test')]), [
+			thread('1', 'test', { anchorParaIndex: 0, anchorStartOffset: 14, anchorEndOffset: 18 })
+		]);
+		expect(out.paragraphs[0].anchors).toEqual([{ anchorId: 'c1', start: 14, end: 18 }]);
+	});
+
+	it('gives a point comment a zero-width anchor', () => {
+		const out = buildJsonExport(makeDoc([para('The deadline moves.')]), [
+			thread('1', '', { anchorParaIndex: 0, anchorStartOffset: 13 })
+		]);
+		expect(out.paragraphs[0].anchors).toEqual([{ anchorId: 'c1', start: 13, end: 13 }]);
+	});
+
+	it('leaves suggested deletions out of paragraph text', () => {
+		const doc = makeDoc([
+			{
+				startIndex: 0,
+				endIndex: 0,
+				paragraph: {
+					elements: [
+						{ startIndex: 0, endIndex: 0, textRun: { content: 'Keep ' } },
+						{
+							startIndex: 0,
+							endIndex: 0,
+							textRun: { content: 'gone ', suggestedDeletionIds: ['d1'] }
+						},
+						{ startIndex: 0, endIndex: 0, textRun: { content: 'this' } }
+					]
+				}
+			}
+		]);
+		expect(buildJsonExport(doc, []).paragraphs[0].text).toBe('Keep this');
+	});
+});
+
+describe('transformToJson', () => {
+	it('round-trips through JSON.parse', () => {
+		const doc = makeDoc([para('alpha')]);
+		const threads = [thread('1', 'alpha', { anchorParaIndex: 0 })];
+		expect(JSON.parse(transformToJson(doc, threads))).toEqual(buildJsonExport(doc, threads));
+	});
+});
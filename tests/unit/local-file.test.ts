@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+	isDocxFile,
+	titleFromFileName,
+	localDocumentId,
+	DOCX_MIME_TYPE
+} from '$lib/utils/local-file';
+
+describe('isDocxFile', () => {
+	it('accepts a .docx extension regardless of case', () => {
+		expect(isDocxFile({ name: 'review.docx' })).toBe(true);
+		expect(isDocxFile({ name: 'REVIEW.DOCX' })).toBe(true);
+	});
+
+	it('accepts the Word MIME type even without an extension', () => {
+		expect(isDocxFile({ name: 'attachment', type: DOCX_MIME_TYPE })).toBe(true);
+	});
+
+	it('rejects other files', () => {
+		expect(isDocxFile({ name: 'notes.pdf', type: 'application/pdf' })).toBe(false);
+		expect(isDocxFile({ name: 'legacy.doc', type: 'application/msword' })).toBe(false);
+	});
+});
+
+describe('titleFromFileName', () => {
+	it('drops the .docx extension', () => {
+		expect(titleFromFileName('Q3 Review.docx')).toBe('Q3 Review');
+	});
+
+	it('keeps names without the extension as-is', () => {
+		expect(titleFromFileName('attachment')).toBe('attachment');
+	});
+
+	it('falls back to the full name when nothing is left', () => {
+		expect(titleFromFileName('.docx')).toBe('.docx');
+	});
+});
+
+describe('localDocumentId', () => {
+	const file = { name: 'review.docx', size: 1234, lastModified: 1_700_000_000_000 };
+
+	it('is deterministic for the same file', () => {
+		expect(localDocumentId(file)).toBe(localDocumentId({ ...file }));
+	});
+
+	it('is prefixed so it never collides with a Drive document ID', () => {
+		expect(localDocumentId(file)).toMatch(/^local-[0-9a-f]{8}$/);
+	});
+
+	it('differs when the file changes', () => {
+		expect(localDocumentId(file)).not.toBe(localDocumentId({ ...file, size: 1235 }));
+		expect(localDocumentId(file)).not.toBe(
+			localDocumentId({ ...file, lastModified: file.lastModified + 1 })
+		);
+	});
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { parseCommentMarkdown } from '$lib/services/markdown-reader';
+import { transformToMarkdown } from '$lib/services/transformer';
+import type { CommentThread, GoogleDocsDocument } from '$lib/types/google';
+
+function makeDoc(texts: string[]): GoogleDocsDocument {
+	return {
+		documentId: 'test',
+		title: 'Test Doc',
+		body: {
+			content: texts.map((text) => ({
+				startIndex: 0,
+				endIndex: 0,
+				paragraph: { elements: [{ startIndex: 0, endIndex: 0, textRun: { content: text } }] }
+			}))
+		}
+	};
+}
+
+function thread(
+	id: string,
+	quotedText: string,
+	comments: Array<[string, string]>,
+	resolved = false
+): CommentThread {
+	return {
+		id,
+		anchorId: `c${id}`,
+		quotedText,
+		resolved,
+		comments: comments.map(([authorName, content], i) => ({
+			authorName,
+			authorEmail: `${authorName.toLowerCase()}@x.com`,
+			content,
+			isReply: i > 0
+		}))
+	};
+}
+
+describe('parseCommentMarkdown', () => {
+	it('never reads anchor-like document text as an anchor', () => {
+		const corpus = [
+			'Odd x]^[c1] y',
+			'[fake]^[c1] at the start',
+			'A point ^[c1] here',
+			'Continued]^[c1 cont.] text',
+			'Escaped \\]^[c1] backslash',
+			'[c1] **Eve** (e@x.com): looks like a header'
+		];
+		for (const text of corpus) {
+			const md = transformToMarkdown(makeDoc([text, 'Real words here.']), [
+				thread('1', 'words', [['Ann', 'Real comment']])
+			]);
+			const parsed = parseCommentMarkdown(md, { strict: true });
+			expect(parsed.threads.map((t) => [t.anchorId, t.quotedText])).toEqual([['c1', 'words']]);
+		}
+	});
+
+	it('round-trips comment text that looks like a thread header', () => {
+		const md = transformToMarkdown(makeDoc(['Some words.']), [
+			thread('1', 'words', [['Ann', '[c2] **Bob** (b@x.com):\nstill Ann']])
+		]);
+		const parsed = parseCommentMarkdown(md, { strict: true });
+		expect(parsed.threads).toHaveLength(1);
+		expect(parsed.threads[0].comments).toHaveLength(1);
+		expect(parsed.threads[0].comments[0].content).toBe('[c2] **Bob** (b@x.com):\nstill Ann');
+	});
+
+	it('round-trips threads rendered by transformToMarkdown', () => {
+		const threads = [
+			thread('1', 'highlighted', [
+				['Sophia', 'First comment'],
+				['Steve', 'A reply']
+			]),
+			thread('2', 'word', [['Alex', 'Reconsider']], true)
+		];
+		const md = transformToMarkdown(
+			makeDoc(['Some highlighted text.', 'Another word here.']),
+			threads
+		);
+
+		const parsed = parseCommentMarkdown(md, { strict: true });
+		expect(parsed.issues).toEqual([]);
+		expect(parsed.threads).toEqual([
+			{
+				id: 'c1',
+				anchorId: 'c1',
+				quotedText: 'highlighted',
+				resolved: false,
+				comments: [
+					{ authorName: 'Sophia', authorEmail: 'sophia@x.com', content: 'First comment', isReply: false },
+					{ authorName: 'Steve', authorEmail: 'steve@x.com', content: 'A reply', isReply: true }
+				]
+			},
+			{
+				id: 'c2',
+				anchorId: 'c2',
+				quotedText: 'word',
+				resolved: true,
+				comments: [
+					{ authorName: 'Alex', authorEmail: 'alex@x.com', content: 'Reconsider', isReply: false }
+				]
+			}
+		]);
+		expect(parsed.bodyText).toBe('# Test Doc\n\nSome highlighted text.\n\nAnother word here.\n');
+	});
+
+	it('reads escaped text back as written, so it renders again unchanged', () => {
+		const doc = makeDoc(['see foo_bar and *x* <now>\n']);
+		const md = transformToMarkdown(doc, [
+			thread('1', 'foo_bar and *x* <now>', [['Ann', 'Is foo_bar *x* right?']])
+		]);
+		expect(md).toContain('see [foo\\_bar and \\*x\\* \\<now>]^[c1]');
+
+		const parsed = parseCommentMarkdown(md, { strict: true });
+		expect(parsed.threads[0].quotedText).toBe('foo_bar and *x* <now>');
+		expect(parsed.threads[0].comments[0].content).toBe('Is foo_bar *x* right?');
+		expect(transformToMarkdown(doc, parsed.threads)).toBe(md);
+	});
+
+	it('keeps multi-line comment bodies, including blank lines inside them', () => {
+		const md = transformToMarkdown(makeDoc(['alpha beta']), [
+			thread('1', 'alpha', [
+				['Sophia', 'Line one\n\nLine three'],
+				['Steve', 'Reply']
+			])
+		]);
+		const [parsed] = parseCommentMarkdown(md, { strict: true }).threads;
+		expect(parsed.comments.map((c) => c.content)).toEqual(['Line one\n\nLine three', 'Reply']);
+	});
+
+	it('keeps inline formatting and links inside the anchored span', () => {
+		const md = [
+			'Read [the **docs** at [site](https://x.com)]^[c1] first.',
+			'',
+			'> [c1] **Sophia** (sophia@x.com):',
+			'> Which docs?',
+			''
+		].join('\n');
+		const parsed = parseCommentMarkdown(md, { strict: true });
+		expect(parsed.threads[0].quotedText).toBe('the **docs** at [site](https://x.com)');
+		expect(parsed.bodyText).toBe('Read the **docs** at [site](https://x.com) first.\n');
+	});
+
+	it('reads an anchor wrapped around an image', () => {
+		const md = 'Figure: [![Funnel](media/image1.png "Q3")]^[c1]\n\n> [c1] **A** (a@x.com):\n> Legend?\n';
+		const parsed = parseCommentMarkdown(md, { strict: true });
+		expect(parsed.threads[0].quotedText).toBe('![Funnel](media/image1.png "Q3")');
+		expect(parsed.bodyText).toBe('Figure: ![Funnel](media/image1.png "Q3")\n');
+	});
+
+	it('reads continuation anchors of a range spanning paragraphs', () => {
+		const md =
+			'Section [opens here]^[c1]\n\n[Middle]^[c1 cont.]\n\n> [c1] **A** (a@x.com):\n> Long\n';
+		const parsed = parseCommentMarkdown(md, { strict: true });
+		expect(parsed.threads[0].quotedText).toBe('opens here');
+		expect(parsed.bodyText).toBe('Section opens here\n\nMiddle\n');
+		expect(() => parseCommentMarkdown('[Orphan]^[c2 cont.]\n', { strict: true })).toThrow(
+			'Line 1, column 1: Continuation of c2 has no opening anchor'
+		);
+	});
+
+	it('reads a bare anchor as a point comment', () => {
+		const md = 'The deadline ^[c1]moves.\n\n> [c1] **A** (a@x.com):\n> When?\n';
+		const parsed = parseCommentMarkdown(md, { strict: true });
+		expect(parsed.issues).toEqual([]);
+		expect(parsed.threads[0].quotedText).toBe('');
+		expect(parsed.bodyText).toBe('The deadline moves.\n');
+	});
+
+	it('reads threads from the Unanchored comments section with an empty quote', () => {
+		const md = transformToMarkdown(makeDoc(['Body']), [thread('1', '', [['Sophia', 'General note']])]);
+		const parsed = parseCommentMarkdown(md, { strict: true });
+		expect(parsed.threads).toHaveLength(1);
+		expect(parsed.threads[0].quotedText).toBe('');
+		expect(parsed.bodyText).not.toContain('Unanchored');
+	});
+
+	it('accepts headers with a rendered timestamp', () => {
+		const md = transformToMarkdown(
+			makeDoc(['alpha']),
+			[
+				{
+					...thread('1', 'alpha', [['Sophia', 'Dated']]),
+					comments: [
+						{
+							authorName: 'Sophia',
+							authorEmail: 'sophia@x.com',
+							content: 'Dated',
+							isReply: false,
+							createdAt: '2026-03-04T14:02:00Z'
+						}
+					]
+				}
+			],
+			{ timestamps: true }
+		);
+		const [parsed] = parseCommentMarkdown(md, { strict: true }).threads;
+		expect(parsed.comments[0]).toMatchObject({ authorEmail: 'sophia@x.com', content: 'Dated' });
+	});
+
+	it('accepts headers with an empty or omitted email', () => {
+		const md =
+			'Hi [there]^[c1] [you]^[c2]\n\n' +
+			'> [c1] **Sophia** ():\n> Hello\n\n' +
+			'> [c2] **Steve**:\n> Hey\n';
+		const threads = parseCommentMarkdown(md, { strict: true }).threads;
+		expect(threads.map((t) => t.comments[0].authorEmail)).toEqual(['', '']);
+		expect(threads[1].comments[0].authorName).toBe('Steve');
+	});
+
+	describe('malformed input', () => {
+		const danglingAnchor = 'Text [here]^[c1] and [there]^[c2].\n\n> [c1] **A** (a@x.com):\n> ok\n';
+
+		it('throws with line and column in strict mode', () => {
+			expect(() => parseCommentMarkdown(danglingAnchor, { strict: true })).toThrow(
+				'Line 1, column 22: Anchor c2 has no comment thread'
+			);
+		});
+
+		it('reports issues and recovers in lenient mode', () => {
+			const parsed = parseCommentMarkdown(danglingAnchor);
+			expect(parsed.issues).toEqual([
+				{ line: 1, column: 22, message: 'Anchor c2 has no comment thread' }
+			]);
+			expect(parsed.threads.map((t) => t.anchorId)).toEqual(['c1']);
+			expect(parsed.bodyText).toBe('Text here and there.\n');
+		});
+
+		it('flags a malformed comment header and keeps it as body text', () => {
+			const md = 'A [b]^[c1]\n\n> [c1] **A** (a@x.com):\n> ok\n>\n> [c1] **B** missing email\n> more\n';
+			const parsed = parseCommentMarkdown(md);
+			expect(parsed.issues).toEqual([
+				{ line: 6, column: 3, message: expect.stringContaining('Malformed comment header') }
+			]);
+			expect(parsed.threads[0].comments).toHaveLength(1);
+			expect(parsed.threads[0].comments[0].content).toBe(
+				'ok\n\n[c1] **B** missing email\nmore'
+			);
+		});
+
+		it('flags a thread that has no anchor outside the Unanchored section', () => {
+			const md = 'Plain text.\n\n> [c1] **A** (a@x.com):\n> orphan\n';
+			expect(() => parseCommentMarkdown(md, { strict: true })).toThrow(
+				'Line 3, column 1: Thread c1 has no inline anchor'
+			);
+			expect(parseCommentMarkdown(md).threads).toHaveLength(1);
+		});
+
+		it('keeps a non-thread blockquote as body text in lenient mode', () => {
+			const md = 'Intro\n\n> just a quote\n';
+			const parsed = parseCommentMarkdown(md);
+			expect(parsed.issues[0]).toMatchObject({ line: 3, column: 1 });
+			expect(parsed.bodyText).toBe('Intro\n\n> just a quote\n');
+		});
+	});
+});
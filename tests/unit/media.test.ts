@@ -0,0 +1,79 @@
+// @vitest-environment node
+// fflate's `instanceof Uint8Array` checks reject TextEncoder output under
+// jsdom (see buildDocx in docx-adapter.test.ts); nothing here needs a DOM.
+import { describe, it, expect } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import {
+	bundleMarkdownWithMedia,
+	embedMediaAsDataUris,
+	formatImageMarkdown,
+	mediaMimeType
+} from '$lib/services/media';
+import type { InlineObject } from '$lib/types/google';
+
+function image(embedded: InlineObject['inlineObjectProperties']['embeddedObject']): InlineObject {
+	return { objectId: 'image-1', inlineObjectProperties: { embeddedObject: embedded } };
+}
+
+describe('formatImageMarkdown', () => {
+	it('uses the description as alt text and the title as link title', () => {
+		expect(
+			formatImageMarkdown(
+				image({ description: 'Chart', title: 'Q3', imageProperties: { contentUri: 'media/a.png' } })
+			)
+		).toBe('![Chart](media/a.png "Q3")');
+	});
+
+	it('falls back to the title for alt text', () => {
+		expect(
+			formatImageMarkdown(image({ title: 'Q3', imageProperties: { contentUri: 'media/a.png' } }))
+		).toBe('![Q3](media/a.png)');
+	});
+
+	it('escapes brackets in alt text and quotes in titles, and encodes spaces in paths', () => {
+		expect(
+			formatImageMarkdown(
+				image({
+					description: 'Step [1]\nof 2',
+					title: 'The "best" one',
+					imageProperties: { contentUri: 'media/my image.png' }
+				})
+			)
+		).toBe('![Step \\[1\\] of 2](media/my%20image.png "The \\"best\\" one")');
+	});
+
+	it('renders nothing for a missing object or one without a source', () => {
+		expect(formatImageMarkdown(undefined)).toBe('');
+		expect(formatImageMarkdown(image({ description: 'Shape' }))).toBe('');
+	});
+});
+
+describe('mediaMimeType', () => {
+	it('maps common image extensions', () => {
+		expect(mediaMimeType('media/image1.PNG')).toBe('image/png');
+		expect(mediaMimeType('media/photo.jpeg')).toBe('image/jpeg');
+		expect(mediaMimeType('media/blob.xyz')).toBe('application/octet-stream');
+	});
+});
+
+describe('embedMediaAsDataUris', () => {
+	it('replaces media links with base64 data URIs and leaves other links alone', () => {
+		const md = '![A](media/a.png) and ![B](media/a.png "t") and ![C](https://x.com/c.png)';
+		const out = embedMediaAsDataUris(md, { 'media/a.png': new Uint8Array([104, 105]) });
+		expect(out).toBe(
+			'![A](data:image/png;base64,aGk=) and ![B](data:image/png;base64,aGk= "t") and ![C](https://x.com/c.png)'
+		);
+	});
+});
+
+describe('bundleMarkdownWithMedia', () => {
+	it('zips the markdown beside its media files', () => {
+		const zip = bundleMarkdownWithMedia('![A](media/a.png)\n', 'Spec.md', {
+			'media/a.png': new Uint8Array([1, 2, 3])
+		});
+		const files = unzipSync(new Uint8Array(zip));
+		expect(Object.keys(files).sort()).toEqual(['Spec.md', 'media/a.png']);
+		expect(strFromU8(files['Spec.md'])).toBe('![A](media/a.png)\n');
+		expect(Array.from(files['media/a.png'])).toEqual([1, 2, 3]);
+	});
+});
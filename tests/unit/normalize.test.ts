@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeRuns } from '$lib/utils/normalize';
+import { extractTextContent } from '$lib/services/transformer';
+import type { GoogleDocsDocument, ParagraphElement, TextRun } from '$lib/types/google';
+
+function run(content: string, extra: Partial<TextRun> = {}): ParagraphElement {
+	return { startIndex: 0, endIndex: 0, textRun: { content, ...extra } };
+}
+
+function docOf(elements: ParagraphElement[]): GoogleDocsDocument {
+	return {
+		documentId: 'test',
+		title: 'Test',
+		body: { content: [{ startIndex: 0, endIndex: 0, paragraph: { elements } }] }
+	};
+}
+
+function elementsOf(doc: GoogleDocsDocument): ParagraphElement[] {
+	return doc.body.content[0].paragraph!.elements;
+}
+
+describe('normalizeRuns', () => {
+	it('merges adjacent runs with the same style', () => {
+		const doc = docOf([
+			run('foo', { textStyle: { bold: true } }),
+			run('bar', { textStyle: { bold: true } }),
+			run(' plain')
+		]);
+		const elements = elementsOf(normalizeRuns(doc));
+		expect(elements.map((el) => el.textRun?.content)).toEqual(['foobar', ' plain']);
+		expect(extractTextContent(elements)).toBe('**foobar** plain');
+	});
+
+	it('compares link styles by value', () => {
+		const doc = docOf([
+			run('a', { textStyle: { link: { url: 'https://x.test' } } }),
+			run('b', { textStyle: { link: { url: 'https://x.test' } } }),
+			run('c', { textStyle: { link: { url: 'https://y.test' } } })
+		]);
+		expect(elementsOf(normalizeRuns(doc)).map((el) => el.textRun?.content)).toEqual(['ab', 'c']);
+	});
+
+	it('keeps runs of different suggestions and non-text elements apart', () => {
+		const doc = docOf([
+			run('one', { suggestedInsertionIds: ['s1'] }),
+			run('two', { suggestedInsertionIds: ['s2'] }),
+			{ startIndex: 0, endIndex: 0, footnoteReference: { footnoteId: '1' } },
+			run('x'),
+			run('y')
+		]);
+		expect(elementsOf(normalizeRuns(doc)).map((el) => el.textRun?.content)).toEqual([
+			'one',
+			'two',
+			undefined,
+			'xy'
+		]);
+	});
+
+	it('normalizes table cells and footnotes without touching the input', () => {
+		const doc = docOf([run('a'), run('b')]);
+		doc.body.content.push({
+			startIndex: 0,
+			endIndex: 0,
+			table: {
+				rows: 1,
+				columns: 1,
+				tableRows: [
+					{
+						startIndex: 0,
+						endIndex: 0,
+						tableCells: [
+							{ startIndex: 0, endIndex: 0, content: docOf([run('c'), run('d')]).body.content }
+						]
+					}
+				]
+			}
+		});
+		doc.footnotes = { '1': { footnoteId: '1', content: docOf([run('e'), run('f')]).body.content } };
+
+		const out = normalizeRuns(doc);
+		const cell = out.body.content[1].table!.tableRows[0].tableCells[0];
+		expect(cell.content[0].paragraph!.elements).toHaveLength(1);
+		expect(out.footnotes!['1'].content[0].paragraph!.elements).toHaveLength(1);
+		expect(elementsOf(doc)).toHaveLength(2);
+	});
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import {
 	estimatePages,
 	filterByPageRange,
+	getCharsPerPage,
 	truncateByPageRange
 } from '$lib/utils/pagination';
 import type { StructuralElement, CommentThread, GoogleDocsDocument } from '$lib/types/google';
@@ -26,7 +27,15 @@ function makeElements(texts: string[]): StructuralElement[] {
 describe('estimatePages', () => {
 	it('returns a single page for an empty document', () => {
 		const result = estimatePages([]);
-		expect(result).toEqual([{ pageNumber: 1, startElementIndex: 0, endElementIndex: 0, charCount: 0 }]);
+		expect(result).toEqual([
+			{
+				pageNumber: 1,
+				startElementIndex: 0,
+				endElementIndex: 0,
+				charCount: 0,
+				strategy: 'estimated'
+			}
+		]);
 	});
 
 	it('returns a single page for a short document', () => {
@@ -95,6 +104,35 @@ describe('estimatePages', () => {
 		expect(result[1].pageNumber).toBe(2);
 	});
 
+	it('keeps the text of a paragraph that holds a page break', () => {
+		const para = (elements: StructuralElement['paragraph']): StructuralElement => ({
+			startIndex: 0,
+			endIndex: 0,
+			paragraph: elements
+		});
+		const elements: StructuralElement[] = [
+			para({ elements: [{ startIndex: 0, endIndex: 0, textRun: { content: 'One\n' } }] }),
+			para({
+				elements: [
+					{ startIndex: 0, endIndex: 0, textRun: { content: 'End of one' } },
+					{ startIndex: 0, endIndex: 0, pageBreak: {} },
+					{ startIndex: 0, endIndex: 0, textRun: { content: '\n' } }
+				]
+			}),
+			para({
+				elements: [
+					{ startIndex: 0, endIndex: 0, pageBreak: {} },
+					{ startIndex: 0, endIndex: 0, textRun: { content: 'Three\n' } }
+				]
+			})
+		];
+		const result = estimatePages(elements);
+		expect(result.map((p) => [p.startElementIndex, p.endElementIndex])).toEqual([
+			[0, 2],
+			[2, 3]
+		]);
+	});
+
 	it('counts characters correctly across pages', () => {
 		const texts = ['a'.repeat(2000), 'b'.repeat(2000)];
 		const elements = makeElements(texts);
@@ -106,6 +144,85 @@ describe('estimatePages', () => {
 		expect(result[0].charCount).toBe(2000);
 		expect(result[1].charCount).toBe(2000);
 	});
+
+	it('counts the text of every table cell toward the page size', () => {
+		const [cellParagraph] = makeElements(['x'.repeat(400)]);
+		const table: StructuralElement = {
+			startIndex: 0,
+			endIndex: 0,
+			table: {
+				rows: 1,
+				columns: 2,
+				tableRows: [
+					{
+						startIndex: 0,
+						endIndex: 0,
+						tableCells: [
+							{ startIndex: 0, endIndex: 0, content: [cellParagraph] },
+							{ startIndex: 0, endIndex: 0, content: [cellParagraph] }
+						]
+					}
+				]
+			}
+		};
+		const result = estimatePages([table], 3000);
+		expect(result[0].charCount).toBe(800);
+	});
+});
+
+describe('estimatePages - rendered page breaks', () => {
+	function withBreaks(texts: string[], breaks: Record<number, number[]>): StructuralElement[] {
+		const elements = makeElements(texts);
+		for (const [index, offsets] of Object.entries(breaks)) {
+			elements[Number(index)].paragraph!.renderedPageBreaks = offsets;
+		}
+		return elements;
+	}
+
+	it("prefers Word's recorded page breaks over character estimates", () => {
+		const elements = withBreaks(['a'.repeat(5000), 'b', 'c', 'd'], { 2: [0] });
+		const result = estimatePages(elements, 3000);
+		expect(result.map((p) => [p.startElementIndex, p.endElementIndex, p.strategy])).toEqual([
+			[0, 2, 'rendered'],
+			[2, 4, 'rendered']
+		]);
+	});
+
+	it('puts a paragraph a page break falls inside on both pages', () => {
+		const elements = withBreaks(['one', 'two runs over', 'three'], { 1: [4] });
+		expect(estimatePages(elements).map((p) => [p.startElementIndex, p.endElementIndex])).toEqual([
+			[0, 2],
+			[1, 3]
+		]);
+		const { elements: kept } = filterByPageRange(elements, 1, 2);
+		expect(kept).toEqual(elements);
+	});
+
+	it('reports estimated pages when no breaks are recorded', () => {
+		const result = estimatePages(makeElements(['a', 'b']));
+		expect(result.every((p) => p.strategy === 'estimated')).toBe(true);
+	});
+});
+
+describe('getCharsPerPage', () => {
+	const pt = (magnitude: number) => ({ magnitude, unit: 'PT' as const });
+
+	it('keeps the default for US Letter with one-inch margins or no settings', () => {
+		expect(getCharsPerPage(undefined)).toBe(3000);
+		expect(getCharsPerPage({ pageSize: { width: pt(612), height: pt(792) } })).toBe(3000);
+	});
+
+	it('scales with the text area of the page', () => {
+		const style = {
+			pageSize: { width: pt(612), height: pt(792) },
+			marginLeft: pt(36),
+			marginRight: pt(36),
+			marginTop: pt(36),
+			marginBottom: pt(36)
+		};
+		// 540 × 720 pt of text instead of 468 × 648.
+		expect(getCharsPerPage(style)).toBe(3846);
+	});
 });
 
 describe('filterByPageRange', () => {
@@ -202,6 +319,24 @@ describe('truncateByPageRange', () => {
 		expect(out.threads).toHaveLength(0);
 	});
 
+	it('cuts a spanning range off at the end of the kept slice', () => {
+		const elements = makeElements(['alpha', 'beta', 'filler ' + 'a'.repeat(3000), 'delta']);
+		const doc = docWithElements(elements);
+		const threads: CommentThread[] = [
+			{
+				...baseThread('1', 'c1', 'alpha'),
+				anchorParaIndex: 0,
+				anchorStartOffset: 0,
+				anchorEndParaIndex: 3,
+				anchorEndOffset: 2
+			}
+		];
+		const out = truncateByPageRange(doc, threads, 1, 1);
+		expect(out.doc.body.content.length).toBeLessThan(4);
+		expect(out.threads[0].anchorEndParaIndex).toBe(out.doc.body.content.length - 1);
+		expect(out.threads[0].anchorEndOffset).toBeUndefined();
+	});
+
 	it('keeps in-range threads and preserves anchorParaIndex when the kept slice starts at index 0', () => {
 		const elements = makeElements(['alpha', 'beta', 'gamma']);
 		const doc = docWithElements(elements);
@@ -250,6 +385,17 @@ describe('truncateByPageRange', () => {
 		expect(out.threads[0].quotedText).toBe('hello');
 	});
 
+	it('keeps an in-range point comment', () => {
+		const elements = makeElements(['hello']);
+		const doc = docWithElements(elements);
+		const threads: CommentThread[] = [
+			{ ...baseThread('1', 'c1', ''), anchorParaIndex: 0, anchorStartOffset: 2 }
+		];
+		const out = truncateByPageRange(doc, threads, 1, undefined);
+		expect(out.threads).toHaveLength(1);
+		expect(out.threads[0].anchorStartOffset).toBe(2);
+	});
+
 	it('falls back to substring match for legacy threads with no anchorParaIndex', () => {
 		// Synthetic threads (unit tests, pre-adapter callers) that lack a
 		// paraIndex still survive via the fullText substring rule — but
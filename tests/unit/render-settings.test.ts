@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock localStorage before importing the store
+const localStorageMock = (() => {
+	let store: Record<string, string> = {};
+	return {
+		getItem: vi.fn((key: string) => store[key] ?? null),
+		setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+		removeItem: vi.fn((key: string) => { delete store[key]; }),
+		clear: vi.fn(() => { store = {}; })
+	};
+})();
+
+Object.defineProperty(globalThis, 'localStorage', { value: localStorageMock });
+
+const {
+	getRenderSettings,
+	updateRenderSettings,
+	resetRenderSettings,
+	restoreRenderSettings
+} = await import('$lib/stores/render-settings.svelte');
+
+describe('render settings store', () => {
+	beforeEach(() => {
+		resetRenderSettings();
+		localStorageMock.clear();
+		vi.clearAllMocks();
+	});
+
+	it('starts with timestamps off, the default format and UTC', () => {
+		const settings = getRenderSettings();
+		expect(settings.showTimestamps).toBe(false);
+		expect(settings.dateFormat).toBe('YYYY-MM-DD HH:mm');
+		expect(settings.timeZone).toBe('UTC');
+	});
+
+	it('persists updates to localStorage', () => {
+		expect(updateRenderSettings({ showTimestamps: true, timeZone: 'Europe/Berlin' })).toBe(true);
+		expect(getRenderSettings().timeZone).toBe('Europe/Berlin');
+		expect(localStorageMock.setItem).toHaveBeenCalledWith(
+			'gdoc_render_settings',
+			expect.stringContaining('Europe/Berlin')
+		);
+	});
+
+	it('rejects an unknown time zone without saving', () => {
+		expect(updateRenderSettings({ timeZone: 'Mars/Olympus' })).toBe(false);
+		expect(getRenderSettings().timeZone).toBe('UTC');
+		expect(localStorageMock.setItem).not.toHaveBeenCalled();
+	});
+
+	it('falls back to the default format when cleared', () => {
+		updateRenderSettings({ dateFormat: '  ' });
+		expect(getRenderSettings().dateFormat).toBe('YYYY-MM-DD HH:mm');
+	});
+
+	it('restores saved settings and drops invalid fields', () => {
+		localStorageMock.setItem(
+			'gdoc_render_settings',
+			JSON.stringify({ showTimestamps: true, dateFormat: 'DD/MM', timeZone: 'Nowhere/Land' })
+		);
+		restoreRenderSettings();
+		const settings = getRenderSettings();
+		expect(settings.showTimestamps).toBe(true);
+		expect(settings.dateFormat).toBe('DD/MM');
+		expect(settings.timeZone).toBe('UTC');
+	});
+
+	it('persists and restores the author email map', () => {
+		updateRenderSettings({ authorEmails: { Sophia: 'sophia@x.com' } });
+		resetRenderSettings();
+		localStorageMock.setItem(
+			'gdoc_render_settings',
+			JSON.stringify({ authorEmails: { Sophia: 'sophia@x.com', Bad: 42 } })
+		);
+		restoreRenderSettings();
+		expect(getRenderSettings().authorEmails).toEqual({ Sophia: 'sophia@x.com' });
+	});
+
+	it('restores the style profile, keeping defaults for missing switches', () => {
+		localStorageMock.setItem(
+			'gdoc_render_settings',
+			JSON.stringify({ styles: { underline: false, highlight: 'no' } })
+		);
+		restoreRenderSettings();
+		expect(getRenderSettings().styles).toEqual({
+			underline: false,
+			monospace: true,
+			scripts: true,
+			highlight: true
+		});
+	});
+
+	it('ignores corrupt data', () => {
+		localStorageMock.setItem('gdoc_render_settings', '{not json');
+		restoreRenderSettings();
+		expect(getRenderSettings().showTimestamps).toBe(false);
+	});
+});
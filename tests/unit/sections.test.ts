@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getOutline,
+	countSectionThreads,
+	parseSectionPath,
+	formatSectionPath,
+	truncateBySections
+} from '$lib/utils/sections';
+import { transformWithPageFilter } from '$lib/services/transformer';
+import type { CommentThread, GoogleDocsDocument } from '$lib/types/google';
+
+// Paragraphs as [text, namedStyleType?]
+function makeDoc(paragraphs: Array<[string, string?]>): GoogleDocsDocument {
+	return {
+		documentId: 'test',
+		title: 'Spec',
+		body: {
+			content: paragraphs.map(([text, style]) => ({
+				startIndex: 0,
+				endIndex: 0,
+				paragraph: {
+					elements: [{ startIndex: 0, endIndex: 0, textRun: { content: `${text}\n` } }],
+					...(style ? { paragraphStyle: { namedStyleType: style } } : {})
+				}
+			}))
+		}
+	};
+}
+
+function thread(id: string, quotedText: string, anchorParaIndex?: number): CommentThread {
+	return {
+		id,
+		anchorId: `c${id}`,
+		quotedText,
+		resolved: false,
+		...(anchorParaIndex !== undefined ? { anchorParaIndex } : {}),
+		comments: [{ authorName: 'A', authorEmail: '', content: 'Note', isReply: false }]
+	};
+}
+
+const spec = makeDoc([
+	['Intro text about risks'],
+	['Design', 'HEADING_1'],
+	['Overview of the design'],
+	['Risks', 'HEADING_2'],
+	['The main risks'],
+	['Mitigations', 'HEADING_3'],
+	['Mitigate the risks'],
+	['Timeline', 'HEADING_2'],
+	['Dates'],
+	['Budget', 'HEADING_1'],
+	['Risks', 'HEADING_2'],
+	['Cost overruns']
+]);
+
+describe('getOutline', () => {
+	it('lists headings with their paths and section extents', () => {
+		const outline = getOutline(spec).map((entry) => [
+			formatSectionPath(entry.path),
+			entry.startElementIndex,
+			entry.endElementIndex
+		]);
+		expect(outline).toEqual([
+			['Design', 1, 9],
+			['Design > Risks', 3, 7],
+			['Design > Risks > Mitigations', 5, 7],
+			['Design > Timeline', 7, 9],
+			['Budget', 9, 12],
+			['Budget > Risks', 10, 12]
+		]);
+	});
+});
+
+describe('countSectionThreads', () => {
+	it('counts threads anchored in a section and its subsections', () => {
+		const threads = [
+			thread('1', 'main', 4),
+			thread('2', 'Mitigate', 6),
+			thread('3', 'Dates', 8),
+			thread('4', 'risks'),
+			{ ...thread('5', '', 4), comments: [] }
+		];
+		const [design, risks, mitigations] = getOutline(spec);
+		expect(countSectionThreads(design, threads)).toBe(3);
+		expect(countSectionThreads(risks, threads)).toBe(2);
+		expect(countSectionThreads(mitigations, threads)).toBe(1);
+	});
+});
+
+describe('parseSectionPath', () => {
+	it('splits on ">" and trims each heading', () => {
+		expect(parseSectionPath(' Design >Risks ')).toEqual(['Design', 'Risks']);
+		expect(parseSectionPath(' > ')).toEqual([]);
+	});
+});
+
+describe('truncateBySections', () => {
+	const texts = (doc: GoogleDocsDocument) =>
+		doc.body.content.map((el) => el.paragraph!.elements[0].textRun!.content.trim());
+
+	it('keeps the heading and everything up to the next heading of equal or higher level', () => {
+		const { doc } = truncateBySections(spec, [], [['Design', 'Risks']]);
+		expect(texts(doc)).toEqual(['Risks', 'The main risks', 'Mitigations', 'Mitigate the risks']);
+	});
+
+	it('matches a path that leaves out outer headings, ignoring case', () => {
+		const { doc } = truncateBySections(spec, [], [['risks']]);
+		expect(texts(doc)).toEqual([
+			'Risks',
+			'The main risks',
+			'Mitigations',
+			'Mitigate the risks',
+			'Risks',
+			'Cost overruns'
+		]);
+	});
+
+	it('keeps overlapping sections once, in document order', () => {
+		const { doc } = truncateBySections(spec, [], [
+			['Budget'],
+			['Design', 'Risks', 'Mitigations'],
+			['Design']
+		]);
+		expect(doc.body.content).toHaveLength(12 - 1);
+		expect(texts(doc)[0]).toBe('Design');
+	});
+
+	it('drops threads anchored outside the sections instead of rehoming them', () => {
+		const threads = [
+			thread('1', 'risks', 0),
+			thread('2', 'risks', 6),
+			thread('3', 'Dates', 8),
+			thread('4', 'risks')
+		];
+		const result = truncateBySections(spec, threads, [['Design', 'Risks']]);
+		expect(result.threads.map((t) => [t.id, t.anchorId, t.anchorParaIndex])).toEqual([
+			['2', 'c1', 3],
+			['4', 'c2', undefined]
+		]);
+	});
+
+	it('cuts a range off at the last kept element before its end', () => {
+		const spanning = { ...thread('1', 'The main', 4), anchorEndParaIndex: 8, anchorEndOffset: 5 };
+		const result = truncateBySections(spec, [spanning], [['Design', 'Risks'], ['Budget']]);
+		expect(result.threads[0].anchorParaIndex).toBe(1);
+		expect(result.threads[0].anchorEndParaIndex).toBe(3);
+		expect(result.threads[0].anchorEndOffset).toBeUndefined();
+	});
+
+	it('throws when a path names no heading', () => {
+		expect(() => truncateBySections(spec, [], [['Design', 'Budget']])).toThrow(
+			'No heading matches "Design > Budget"'
+		);
+	});
+
+	it('renders only the selected sections through transformWithPageFilter', () => {
+		const threads = [thread('1', 'Cost', 11), thread('2', 'Dates', 8)];
+		const result = transformWithPageFilter(spec, threads, { sections: [['Budget', 'Risks']] });
+		expect(result.markdown).toContain('## Risks\n\n[Cost]^[c1] overruns');
+		expect(result.markdown).not.toContain('Dates');
+		expect(result.commentCount).toBe(1);
+		expect(result.pageRange).toBeNull();
+	});
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+	filterThreads,
+	isEmptyThreadFilter,
+	describeThreadFilter
+} from '$lib/utils/thread-filter';
+import type { CommentThread, ThreadComment } from '$lib/types/google';
+
+function comment(authorName: string, createdAt?: string, isReply = false): ThreadComment {
+	return {
+		authorName,
+		authorEmail: `${authorName.toLowerCase()}@example.com`,
+		content: 'Note',
+		isReply,
+		...(createdAt ? { createdAt } : {})
+	};
+}
+
+function thread(id: string, comments: ThreadComment[], resolved = false): CommentThread {
+	return { id, anchorId: `c${id}`, quotedText: 'text', resolved, comments };
+}
+
+const threads = [
+	thread('1', [comment('Dana', '2026-03-01T09:00:00Z')]),
+	thread('2', [comment('Lee', '2026-03-05T12:00:00Z'), comment('Dana', undefined, true)], true),
+	thread('3', [comment('Bot', '2026-03-08T00:00:00Z')]),
+	thread('4', [comment('Lee')])
+];
+
+function ids(filtered: CommentThread[]): string[] {
+	return filtered.map((t) => t.id);
+}
+
+describe('filterThreads', () => {
+	it('keeps every thread for an empty filter', () => {
+		expect(ids(filterThreads(threads, {}))).toEqual(['1', '2', '3', '4']);
+		expect(ids(filterThreads(threads, { status: 'all' }))).toEqual(['1', '2', '3', '4']);
+	});
+
+	it('filters by resolved status', () => {
+		expect(ids(filterThreads(threads, { status: 'open' }))).toEqual(['1', '3', '4']);
+		expect(ids(filterThreads(threads, { status: 'resolved' }))).toEqual(['2']);
+	});
+
+	it('keeps threads with a comment by an included author, by name or email', () => {
+		expect(ids(filterThreads(threads, { includeAuthors: ['dana'] }))).toEqual(['1', '2']);
+		expect(ids(filterThreads(threads, { includeAuthors: ['BOT@example.com'] }))).toEqual(['3']);
+	});
+
+	it('matches authors by the email an alias gives them', () => {
+		const unmailed = [
+			thread('5', [{ ...comment('Dana'), authorEmail: '' }]),
+			thread('6', [{ ...comment('Kim'), authorEmail: '' }])
+		];
+		const aliases = { Dana: 'dana@corp.example' };
+		expect(ids(filterThreads(unmailed, { includeAuthors: ['dana@corp.example'] }))).toEqual([]);
+		expect(
+			ids(filterThreads(unmailed, { includeAuthors: ['DANA@corp.example'] }, aliases))
+		).toEqual(['5']);
+		expect(
+			ids(filterThreads(unmailed, { excludeAuthors: ['dana@corp.example'] }, aliases))
+		).toEqual(['6']);
+	});
+
+	it('drops threads opened by an excluded author', () => {
+		expect(ids(filterThreads(threads, { excludeAuthors: ['Dana', 'bot'] }))).toEqual(['2', '4']);
+	});
+
+	it('filters by creation date, after inclusive and before exclusive', () => {
+		expect(
+			ids(filterThreads(threads, { createdAfter: '2026-03-01T09:00:00Z' }))
+		).toEqual(['1', '2', '3']);
+		expect(ids(filterThreads(threads, { createdBefore: '2026-03-08' }))).toEqual(['1', '2']);
+		expect(
+			ids(filterThreads(threads, { createdAfter: '2026-03-02', createdBefore: '2026-03-08' }))
+		).toEqual(['2']);
+	});
+
+	it('keeps only threads with replies', () => {
+		expect(ids(filterThreads(threads, { hasReplies: true }))).toEqual(['2']);
+	});
+
+	it('combines conditions', () => {
+		expect(
+			ids(filterThreads(threads, { status: 'open', includeAuthors: ['Lee'] }))
+		).toEqual(['4']);
+	});
+});
+
+describe('isEmptyThreadFilter', () => {
+	it('treats unset and default conditions as empty', () => {
+		expect(isEmptyThreadFilter({})).toBe(true);
+		expect(
+			isEmptyThreadFilter({ status: 'all', includeAuthors: [], excludeAuthors: [], hasReplies: false })
+		).toBe(true);
+		expect(isEmptyThreadFilter({ status: 'open' })).toBe(false);
+		expect(isEmptyThreadFilter({ createdBefore: '2026-03-08' })).toBe(false);
+	});
+});
+
+describe('describeThreadFilter', () => {
+	it('lists each condition', () => {
+		expect(
+			describeThreadFilter({
+				status: 'open',
+				includeAuthors: ['Dana', 'Lee'],
+				excludeAuthors: ['Bot'],
+				createdAfter: '2026-03-01',
+				createdBefore: '2026-03-08',
+				hasReplies: true
+			})
+		).toBe(
+			'open · by Dana, Lee · not opened by Bot · from 2026-03-01 · before 2026-03-08 · with replies'
+		);
+		expect(describeThreadFilter({ status: 'all' })).toBe('');
+	});
+});
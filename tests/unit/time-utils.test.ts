@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatRelativeTime } from '$lib/utils/time';
+import { formatRelativeTime, formatTimestamp, isValidTimeZone } from '$lib/utils/time';
 
 describe('formatRelativeTime', () => {
 	it('returns "just now" for less than 60 seconds ago', () => {
@@ -44,3 +44,37 @@ describe('formatRelativeTime', () => {
 		expect(result).toMatch(/Jan\s+15,?\s+2024/);
 	});
 });
+
+describe('formatTimestamp', () => {
+	it('uses YYYY-MM-DD HH:mm in UTC by default', () => {
+		expect(formatTimestamp('2026-03-04T14:02:09Z')).toBe('2026-03-04 14:02');
+	});
+
+	it('replaces every token and copies other characters through', () => {
+		expect(formatTimestamp('2026-03-04T14:02:09Z', 'DD.MM.YYYY at HH:mm:ss')).toBe(
+			'04.03.2026 at 14:02:09'
+		);
+	});
+
+	it('converts to the requested time zone', () => {
+		expect(formatTimestamp('2026-03-04T23:30:00Z', 'YYYY-MM-DD HH:mm', 'Asia/Tokyo')).toBe(
+			'2026-03-05 08:30'
+		);
+	});
+
+	it('uses 00 for midnight', () => {
+		expect(formatTimestamp('2026-03-04T00:05:00Z', 'HH:mm')).toBe('00:05');
+	});
+
+	it('returns an empty string for an unparseable timestamp', () => {
+		expect(formatTimestamp('not a date')).toBe('');
+	});
+});
+
+describe('isValidTimeZone', () => {
+	it('accepts IANA zone names and rejects unknown ones', () => {
+		expect(isValidTimeZone('UTC')).toBe(true);
+		expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+		expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+	});
+});
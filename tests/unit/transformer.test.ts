@@ -3,9 +3,12 @@ import {
 	transformToMarkdown,
 	transformWithPageFilter,
 	extractTextContent,
-	formatCommentThread
+	formatCommentThread,
+	formatCriticComment,
+	formatFootnoteThread,
+	escapeMarkdown
 } from '$lib/services/transformer';
-import type { CommentThread, GoogleDocsDocument } from '$lib/types/google';
+import type { CommentThread, GoogleDocsDocument, TextStyle } from '$lib/types/google';
 
 describe('extractTextContent', () => {
 	it('extracts plain text from paragraph elements', () => {
@@ -81,6 +84,44 @@ describe('extractTextContent', () => {
 		expect(extractTextContent(elements)).toBe('**_~~Hello~~_**');
 	});
 
+	it('renders only the style markup the profile switches on', () => {
+		const elements = [
+			{
+				startIndex: 0,
+				endIndex: 0,
+				textRun: { content: 'x', textStyle: { underline: true, backgroundColor: 'yellow' } }
+			},
+			{ startIndex: 0, endIndex: 0, textRun: { content: '2', textStyle: { baselineOffset: 'SUPERSCRIPT' as const } } }
+		];
+		expect(extractTextContent(elements)).toBe('==<u>x</u>==<sup>2</sup>');
+		expect(
+			extractTextContent(elements, {
+				styles: { underline: false, monospace: true, scripts: false, highlight: true }
+			})
+		).toBe('==x==2');
+	});
+
+	it('fences code spans around backticks in the text', () => {
+		const elements = [
+			{
+				startIndex: 0,
+				endIndex: 0,
+				textRun: { content: 'a`b', textStyle: { weightedFontFamily: { fontFamily: 'Roboto Mono' } } }
+			}
+		];
+		expect(extractTextContent(elements)).toBe('``a`b``');
+	});
+
+	it('keeps leading and trailing whitespace outside the markers', () => {
+		const elements = [
+			{ startIndex: 0, endIndex: 0, textRun: { content: 'a' } },
+			{ startIndex: 0, endIndex: 0, textRun: { content: ' bold ', textStyle: { bold: true } } },
+			{ startIndex: 0, endIndex: 0, textRun: { content: 'b' } },
+			{ startIndex: 0, endIndex: 0, textRun: { content: ' ', textStyle: { italic: true } } }
+		];
+		expect(extractTextContent(elements)).toBe('a **bold** b ');
+	});
+
 	it('handles links', () => {
 		const elements = [
 			{ startIndex: 0, endIndex: 5, textRun: { content: 'Click', textStyle: { link: { url: 'https://example.com' } } } }
@@ -88,6 +129,22 @@ describe('extractTextContent', () => {
 		expect(extractTextContent(elements)).toBe('[Click](https://example.com)');
 	});
 
+	it('wraps consecutive runs of one suggested insertion in a single marker', () => {
+		const elements = [
+			{ startIndex: 0, endIndex: 0, textRun: { content: 'a ' } },
+			{ startIndex: 0, endIndex: 0, textRun: { content: 'new', textStyle: { bold: true }, suggestedInsertionIds: ['s1'] } },
+			{ startIndex: 0, endIndex: 0, textRun: { content: ' word', suggestedInsertionIds: ['s1'] } }
+		];
+		expect(extractTextContent(elements)).toBe('a {++**new** word++}');
+	});
+
+	it('marks suggested deletions', () => {
+		const elements = [
+			{ startIndex: 0, endIndex: 0, textRun: { content: 'gone', suggestedDeletionIds: ['s2'] } }
+		];
+		expect(extractTextContent(elements)).toBe('{--gone--}');
+	});
+
 	it('preserves newlines', () => {
 		const elements = [
 			{ startIndex: 0, endIndex: 6, textRun: { content: 'Line1\n' } },
@@ -157,6 +214,79 @@ describe('formatCommentThread', () => {
 		const result = formatCommentThread(thread);
 		expect(result).toContain('[c1 resolved]');
 	});
+
+	it('omits the parentheses when no email is known', () => {
+		const thread: CommentThread = {
+			id: '1',
+			anchorId: 'c1',
+			quotedText: 'text',
+			resolved: false,
+			comments: [{ authorName: 'Alice', authorEmail: '', content: 'Hi', isReply: false }]
+		};
+		expect(formatCommentThread(thread)).toBe('> [c1] **Alice**:\n> Hi');
+	});
+
+	it('fills missing emails from the author alias map without overriding known ones', () => {
+		const thread: CommentThread = {
+			id: '1',
+			anchorId: 'c1',
+			quotedText: 'text',
+			resolved: false,
+			comments: [
+				{ authorName: 'Alice', authorEmail: '', content: 'Hi', isReply: false },
+				{ authorName: 'Bob', authorEmail: 'bob@doc.com', content: 'Yo', isReply: true }
+			]
+		};
+		const result = formatCommentThread(thread, {
+			authorEmails: { Alice: 'alice@alias.com', Bob: 'bob@alias.com' }
+		});
+		expect(result).toContain('> [c1] **Alice** (alice@alias.com):');
+		expect(result).toContain('> [c1] **Bob** (bob@doc.com):');
+	});
+
+	describe('timestamps', () => {
+		const thread: CommentThread = {
+			id: '1',
+			anchorId: 'c1',
+			quotedText: 'text',
+			resolved: false,
+			comments: [
+				{
+					authorName: 'Sophia',
+					authorEmail: 'sophia@x.com',
+					content: 'Stale?',
+					isReply: false,
+					createdAt: '2026-03-04T14:02:00Z'
+				},
+				{ authorName: 'Steve', authorEmail: 'steve@x.com', content: 'Undated', isReply: true }
+			]
+		};
+
+		it('leaves headers unchanged unless timestamps are requested', () => {
+			expect(formatCommentThread(thread)).toContain('> [c1] **Sophia** (sophia@x.com):');
+		});
+
+		it('appends the formatted date to dated comments only', () => {
+			const result = formatCommentThread(thread, { timestamps: true });
+			expect(result).toContain('> [c1] **Sophia** (sophia@x.com) · 2026-03-04 14:02:');
+			expect(result).toContain('> [c1] **Steve** (steve@x.com):');
+		});
+
+		it('honours the date format and time zone', () => {
+			const result = formatCommentThread(thread, {
+				timestamps: true,
+				dateFormat: 'DD/MM/YYYY HH:mm',
+				timeZone: 'Asia/Tokyo'
+			});
+			expect(result).toContain('(sophia@x.com) · 04/03/2026 23:02:');
+		});
+
+		it('threads the options through transformToMarkdown', () => {
+			const doc = makeDoc([{ text: 'Some text here' }]);
+			const md = transformToMarkdown(doc, [thread], { timestamps: true });
+			expect(md).toContain('**Sophia** (sophia@x.com) · 2026-03-04 14:02:');
+		});
+	});
 });
 
 // Helper to build a minimal doc with paragraphs
@@ -548,6 +678,16 @@ describe('transformWithPageFilter', () => {
 		expect(result.totalPages).toBe(2);
 	});
 
+	it("filters by Word's rendered pages when the document records them", () => {
+		const doc = makeMultiPageDoc();
+		doc.body.content[1].paragraph!.renderedPageBreaks = [0];
+		const result = transformWithPageFilter(doc, [], { startPage: 2, pageCount: 1 });
+		expect(result.pageStrategy).toBe('rendered');
+		expect(result.markdown).toContain('Page1 Para2');
+		expect(result.markdown).not.toContain('Page1 Para1');
+		expect(transformWithPageFilter(makeMultiPageDoc(), []).pageStrategy).toBe('estimated');
+	});
+
 	it('filters comments to only those in the page range', () => {
 		const doc = makeMultiPageDoc();
 		const threads: CommentThread[] = [
@@ -590,6 +730,22 @@ describe('transformWithPageFilter', () => {
 		expect(result.commentCount).toBe(2);
 	});
 
+	it('reports how many threads fell through to the unanchored section', () => {
+		const doc = makeMultiPageDoc();
+		const threads: CommentThread[] = [
+			{
+				id: '1', anchorId: 'c1', quotedText: 'Page1 Para1', resolved: false,
+				comments: [{ authorName: 'A', authorEmail: '', content: 'placed', isReply: false }]
+			},
+			{
+				id: '2', anchorId: 'c2', quotedText: '', resolved: false,
+				comments: [{ authorName: 'B', authorEmail: '', content: 'point', isReply: false }]
+			}
+		];
+		expect(transformWithPageFilter(doc, threads).unanchoredCount).toBe(1);
+		expect(transformWithPageFilter(doc, threads.slice(0, 1)).unanchoredCount).toBe(0);
+	});
+
 	it('returns correct metadata', () => {
 		const doc = makeMultiPageDoc();
 		const result = transformWithPageFilter(doc, [], { startPage: 2 });
@@ -703,3 +859,946 @@ describe('transformToMarkdown - unanchored comments section', () => {
 		expect(headingIndex).toBeGreaterThan(bodyIndex);
 	});
 });
+
+describe('transformToMarkdown - tables', () => {
+	type CellRuns = Array<[string, TextStyle?]>;
+
+	function cell(text: string | CellRuns) {
+		const runs: CellRuns = typeof text === 'string' ? [[text]] : text;
+		return {
+			startIndex: 0,
+			endIndex: 0,
+			content: [
+				{
+					startIndex: 0,
+					endIndex: 0,
+					paragraph: {
+						elements: runs.map(([content, textStyle]) => ({
+							startIndex: 0,
+							endIndex: 0,
+							textRun: { content, ...(textStyle ? { textStyle } : {}) }
+						}))
+					}
+				}
+			]
+		};
+	}
+
+	function tableDoc(rows: Array<Array<string | CellRuns>>): GoogleDocsDocument {
+		return {
+			documentId: 'test',
+			title: 'Test Doc',
+			body: {
+				content: [
+					{
+						startIndex: 0,
+						endIndex: 0,
+						table: {
+							rows: rows.length,
+							columns: Math.max(...rows.map((r) => r.length)),
+							tableRows: rows.map((r) => ({
+								startIndex: 0,
+								endIndex: 0,
+								tableCells: r.map(cell)
+							}))
+						}
+					}
+				]
+			}
+		};
+	}
+
+	it('renders the first row as the header of a pipe table', () => {
+		const result = transformToMarkdown(tableDoc([['A', 'B'], ['1', '2']]), []);
+		expect(result).toContain('| A | B |\n| --- | --- |\n| 1 | 2 |');
+	});
+
+	it('pads short rows to the widest row', () => {
+		const result = transformToMarkdown(tableDoc([['A', 'B'], ['1']]), []);
+		expect(result).toContain('| 1 |  |');
+	});
+
+	it('renders line breaks inside cells as <br>', () => {
+		const result = transformToMarkdown(tableDoc([['one\vtwo']]), []);
+		expect(result).toContain('| one<br>two |');
+	});
+
+	it('escapes pipe characters inside cells', () => {
+		const result = transformToMarkdown(tableDoc([['a | b']]), []);
+		expect(result).toContain('| a \\| b |');
+	});
+
+	it('anchors comments inside cells and places the thread after the table', () => {
+		const threads: CommentThread[] = [
+			{
+				id: '1', anchorId: 'c1', quotedText: '2', resolved: false,
+				comments: [{ authorName: 'A', authorEmail: 'a@t.com', content: 'why two?', isReply: false }],
+				anchorParaIndex: 0
+			}
+		];
+		const result = transformToMarkdown(tableDoc([['A', 'B'], ['1', '2']]), threads);
+		expect(result).toContain('| 1 | [2]^[c1] |');
+		const lines = result.split('\n');
+		const lastRow = lines.findIndex((l) => l.startsWith('| 1 |'));
+		const threadLine = lines.findIndex((l) => l.startsWith('> [c1]'));
+		expect(threadLine).toBeGreaterThan(lastRow);
+		expect(result).not.toContain('Unanchored comments');
+	});
+
+	function cellThread(
+		quotedText: string,
+		cellParagraph: number,
+		start: number,
+		end: number
+	): CommentThread {
+		return {
+			id: '1',
+			anchorId: 'c1',
+			quotedText,
+			resolved: false,
+			comments: [{ authorName: 'A', authorEmail: '', content: 'Note', isReply: false }],
+			anchorParaIndex: 0,
+			anchorCellParagraph: cellParagraph,
+			anchorStartOffset: start,
+			anchorEndOffset: end
+		};
+	}
+
+	it('anchors the recorded occurrence of a word repeated in a cell', () => {
+		const result = transformToMarkdown(tableDoc([['A', 'B'], ['test the test', 'test']]), [
+			cellThread('test', 2, 9, 13)
+		]);
+		expect(result).toContain('| test the [test]^[c1] | test |');
+	});
+
+	it('anchors a cell quote that inline markup splits', () => {
+		const doc = tableDoc([
+			['A', 'B'],
+			['1', [['The '], ['bold', { bold: true }], [' claim']]]
+		]);
+		const result = transformToMarkdown(doc, [cellThread('bold claim', 3, 4, 14)]);
+		expect(result).toContain('| 1 | The [**bold** claim]^[c1] |');
+		expect(result).not.toContain('Unanchored comments');
+	});
+
+	it('marks a point comment inside a cell', () => {
+		const result = transformToMarkdown(tableDoc([['A', 'B'], ['1', 'Ships Friday']]), [
+			cellThread('', 3, 6, 6)
+		]);
+		expect(result).toContain('| 1 | Ships ^[c1]Friday |');
+		expect(result).not.toContain('Unanchored comments');
+	});
+});
+
+describe('transformToMarkdown - suggestions digest', () => {
+	function suggestionDoc(): GoogleDocsDocument {
+		return {
+			documentId: 'test',
+			title: 'Test Doc',
+			body: {
+				content: [
+					{
+						startIndex: 0,
+						endIndex: 0,
+						paragraph: {
+							elements: [
+								{ startIndex: 0, endIndex: 0, textRun: { content: 'Ship it ' } },
+								{ startIndex: 0, endIndex: 0, textRun: { content: 'today', suggestedDeletionIds: ['d1'] } },
+								{ startIndex: 0, endIndex: 0, textRun: { content: 'tomorrow', suggestedInsertionIds: ['i1'] } }
+							]
+						}
+					}
+				]
+			},
+			suggestions: {
+				d1: { id: 'd1', kind: 'deletion', authorName: 'Steve', date: '2026-03-05T09:00:00Z' },
+				i1: { id: 'i1', kind: 'insertion', authorName: 'Sophia', date: '2026-03-04T14:02:00Z' }
+			}
+		};
+	}
+
+	it('omits the digest by default', () => {
+		const result = transformToMarkdown(suggestionDoc(), []);
+		expect(result).toContain('Ship it {--today--}{++tomorrow++}');
+		expect(result).not.toContain('## Suggestions');
+	});
+
+	it('lists each suggestion with author, date and text when enabled', () => {
+		const result = transformToMarkdown(suggestionDoc(), [], { suggestionDigest: true });
+		expect(result).toContain('## Suggestions');
+		expect(result).toContain('- **Steve** (2026-03-05) deleted: {--today--}');
+		expect(result).toContain('- **Sophia** (2026-03-04) inserted: {++tomorrow++}');
+		expect(result.indexOf('**Steve**')).toBeLessThan(result.indexOf('**Sophia**'));
+	});
+
+	it('omits the digest section when the document has no suggestions', () => {
+		const doc = makeDoc([{ text: 'Plain.' }]);
+		const result = transformToMarkdown(doc, [], { suggestionDigest: true });
+		expect(result).not.toContain('## Suggestions');
+	});
+});
+
+describe('transformToMarkdown - footnotes', () => {
+	function withFootnotes(): GoogleDocsDocument {
+		const note = (text: string) => ({
+			startIndex: 0,
+			endIndex: 0,
+			paragraph: { elements: [{ startIndex: 0, endIndex: 0, textRun: { content: text } }] }
+		});
+		return {
+			documentId: 'test',
+			title: 'Paper',
+			body: {
+				content: [
+					{
+						startIndex: 0,
+						endIndex: 0,
+						paragraph: {
+							elements: [
+								{ startIndex: 0, endIndex: 0, textRun: { content: 'Growth was strong' } },
+								{
+									startIndex: 0,
+									endIndex: 0,
+									footnoteReference: { footnoteId: 'f7', footnoteNumber: '1' }
+								},
+								{ startIndex: 0, endIndex: 0, textRun: { content: ' last year.\n' } }
+							]
+						}
+					}
+				]
+			},
+			footnotes: {
+				f7: { footnoteId: 'f7', content: [note(' See the annual report.\n'), note('Table 4.\n')] },
+				unused: { footnoteId: 'unused', content: [note('Never referenced\n')] }
+			}
+		};
+	}
+
+	it('renders references as [^n] and appends footnote definitions', () => {
+		const md = transformToMarkdown(withFootnotes(), []);
+		expect(md).toContain('Growth was strong[^1] last year.');
+		expect(md).toContain('[^1]: See the annual report.\n\n    Table 4.\n');
+		expect(md).not.toContain('Never referenced');
+	});
+
+	it('anchors footnote threads inside the definition and never in the body', () => {
+		const threads: CommentThread[] = [
+			{
+				id: 'f',
+				anchorId: 'c9',
+				quotedText: 'report',
+				resolved: false,
+				anchorParaIndex: 0,
+				anchorFootnoteId: 'f7',
+				comments: [{ authorName: 'A', authorEmail: '', content: 'Which one?', isReply: false }]
+			},
+			{
+				id: 'b',
+				anchorId: 'c3',
+				quotedText: 'strong',
+				resolved: false,
+				anchorParaIndex: 0,
+				comments: [{ authorName: 'B', authorEmail: '', content: 'Source?', isReply: false }]
+			}
+		];
+		const doc = withFootnotes();
+		doc.body.content[0].paragraph!.elements[0].textRun!.content = 'Growth was strong, see report';
+		const md = transformToMarkdown(doc, threads);
+
+		expect(md).toContain('Growth was [strong]^[c1], see report[^1]');
+		expect(md).toContain('[^1]: See the annual [report]^[c2].\n\n    Table 4.\n\n> [c2] **A**:\n> Which one?');
+		expect(md).not.toContain('Unanchored');
+	});
+});
+
+describe('transformToMarkdown - ranges spanning paragraphs', () => {
+	function docOf(texts: string[], styles: Record<number, string> = {}): GoogleDocsDocument {
+		return {
+			documentId: 'test',
+			title: 'Notes',
+			body: {
+				content: texts.map((text, i) => ({
+					startIndex: 0,
+					endIndex: 0,
+					paragraph: {
+						elements: [{ startIndex: 0, endIndex: 0, textRun: { content: `${text}\n` } }],
+						...(styles[i] ? { paragraphStyle: { namedStyleType: styles[i] } } : {})
+					}
+				}))
+			}
+		};
+	}
+
+	function spanning(extra: Partial<CommentThread>): CommentThread {
+		return {
+			id: 's',
+			anchorId: 'c1',
+			quotedText: 'opens here',
+			resolved: false,
+			anchorParaIndex: 0,
+			anchorStartOffset: 8,
+			anchorEndParaIndex: 2,
+			anchorEndOffset: 4,
+			comments: [{ authorName: 'A', authorEmail: '', content: 'Too long', isReply: false }],
+			...extra
+		};
+	}
+
+	it('marks each covered paragraph and places the thread after the last one', () => {
+		const md = transformToMarkdown(
+			docOf(['Section opens here', 'Whole middle paragraph', 'Last bit stays out']),
+			[spanning({})]
+		);
+		expect(md).toBe(
+			'# Notes\n\n' +
+				'Section [opens here]^[c1]\n\n' +
+				'[Whole middle paragraph]^[c1 cont.]\n\n' +
+				'[Last]^[c1 cont.] bit stays out\n\n' +
+				'> [c1] **A**:\n> Too long\n'
+		);
+	});
+
+	it('keeps heading prefixes outside the continuation and leaves room for other anchors', () => {
+		const other: CommentThread = {
+			id: 'o',
+			anchorId: 'c9',
+			quotedText: 'stays',
+			resolved: false,
+			anchorParaIndex: 2,
+			comments: [{ authorName: 'B', authorEmail: '', content: 'Why?', isReply: false }]
+		};
+		const md = transformToMarkdown(
+			docOf(['Section opens here', 'Heading', 'Last bit stays out'], { 1: 'HEADING_1' }),
+			[spanning({}), other]
+		);
+		expect(md).toContain('## [Heading]^[c1 cont.]');
+		expect(md).toContain('[Last]^[c1 cont.] bit [stays]^[c2] out\n\n> [c1] **A**:\n> Too long\n> [c2] **B**:');
+	});
+
+	it('places the thread after the last rendered paragraph when the range ends on an empty one', () => {
+		const md = transformToMarkdown(docOf(['Section opens here', 'Next', '', 'After']), [
+			spanning({ anchorEndOffset: 0 })
+		]);
+		expect(md).toContain('[Next]^[c1 cont.]\n\n> [c1] **A**:\n> Too long\n\nAfter\n');
+	});
+
+	it('still places the thread when the range runs past the end of the body', () => {
+		const md = transformToMarkdown(docOf(['Section opens here', 'Tail']), [
+			spanning({ anchorEndParaIndex: 5, anchorEndOffset: undefined })
+		]);
+		expect(md).toBe(
+			'# Notes\n\nSection [opens here]^[c1]\n\n[Tail]^[c1 cont.]\n\n> [c1] **A**:\n> Too long\n'
+		);
+	});
+});
+
+describe('transformToMarkdown - point comments', () => {
+	function point(anchorParaIndex: number, anchorStartOffset: number, id = '1'): CommentThread {
+		return {
+			id,
+			anchorId: `c${id}`,
+			quotedText: '',
+			resolved: false,
+			anchorParaIndex,
+			anchorStartOffset,
+			comments: [{ authorName: 'A', authorEmail: '', content: 'When?', isReply: false }]
+		};
+	}
+
+	it('marks the insertion position and places the thread after its paragraph', () => {
+		const doc = makeDoc([{ text: 'Intro\n' }, { text: 'The deadline moves.\n' }, { text: 'Later\n' }]);
+		const result = transformToMarkdown(doc, [point(1, 13)]);
+		expect(result).toContain('The deadline ^[c1]moves.\n\n> [c1] **A**:\n> When?\n\nLater');
+		expect(result).not.toContain('Unanchored comments');
+	});
+
+	it('moves a point inside another anchor to the end of that anchor', () => {
+		const doc = makeDoc([{ text: 'The deadline moves.\n' }]);
+		const range: CommentThread = {
+			...point(0, 0, '2'),
+			quotedText: 'deadline',
+			anchorStartOffset: undefined
+		};
+		const result = transformToMarkdown(doc, [range, point(0, 6, '1')]);
+		expect(result).toContain('The [deadline]^[c1]^[c2] moves.');
+	});
+
+	it('marks a point at the end of a paragraph', () => {
+		const doc = makeDoc([{ text: 'Done.\n' }]);
+		expect(transformToMarkdown(doc, [point(0, 5)])).toContain('Done.^[c1]\n\n> [c1]');
+	});
+});
+
+describe('transformToMarkdown - anchors placed by offset', () => {
+	function styledDoc(runs: Array<[string, TextStyle?]>): GoogleDocsDocument {
+		return {
+			documentId: 'test',
+			title: 'Notes',
+			body: {
+				content: [
+					{
+						startIndex: 0,
+						endIndex: 0,
+						paragraph: {
+							elements: runs.map(([content, textStyle]) => ({
+								startIndex: 0,
+								endIndex: 0,
+								textRun: { content, ...(textStyle ? { textStyle } : {}) }
+							}))
+						}
+					}
+				]
+			}
+		};
+	}
+
+	function ranged(id: string, quotedText: string, start: number, end: number): CommentThread {
+		return {
+			id,
+			anchorId: `c${id}`,
+			quotedText,
+			resolved: false,
+			anchorParaIndex: 0,
+			anchorStartOffset: start,
+			anchorEndOffset: end,
+			comments: [{ authorName: 'A', authorEmail: '', content: 'Note', isReply: false }]
+		};
+	}
+
+	it('anchors a quote that inline markup splits', () => {
+		const doc = styledDoc([['The ', undefined], ['bold', { bold: true }], [' claim.\n', undefined]]);
+		const md = transformToMarkdown(doc, [ranged('1', 'bold claim', 4, 14)]);
+		expect(md).toContain('The [**bold** claim]^[c1].');
+		expect(md).not.toContain('Unanchored comments');
+	});
+
+	it('splits styling at the anchor boundaries', () => {
+		const doc = styledDoc([
+			['Some ', undefined],
+			['emphasized words', { italic: true }],
+			['\n', undefined]
+		]);
+		const md = transformToMarkdown(doc, [ranged('1', 'words', 16, 21)]);
+		expect(md).toContain('Some _emphasized_ [_words_]^[c1]');
+	});
+
+	it('anchors the recorded occurrence of a repeated word', () => {
+		const doc = styledDoc([['a test of the test\n', undefined]]);
+		const md = transformToMarkdown(doc, [ranged('1', 'test', 14, 18)]);
+		expect(md).toContain('a test of the [test]^[c1]');
+	});
+
+	it('gives contested positions to the longer range', () => {
+		const doc = styledDoc([['one two three\n', undefined]]);
+		const md = transformToMarkdown(doc, [
+			ranged('1', 'two', 4, 7),
+			ranged('2', 'one two three', 0, 13)
+		]);
+		expect(md).toContain('[one two three]^[c1]');
+		expect(md).toContain('## Unanchored comments\n\n> [c2]');
+	});
+
+	it('numbers threads in one paragraph by where their anchors start', () => {
+		const doc = styledDoc([['Ship it by Friday.\n', undefined]]);
+		const md = transformToMarkdown(doc, [
+			ranged('1', 'Friday', 11, 17),
+			ranged('2', '', 0, 0),
+			ranged('3', 'it', 5, 7)
+		]);
+		expect(md).toContain('^[c1]Ship [it]^[c2] by [Friday]^[c3].');
+		expect(md.indexOf('> [c1]')).toBeLessThan(md.indexOf('> [c2]'));
+		expect(md.indexOf('> [c2]')).toBeLessThan(md.indexOf('> [c3]'));
+	});
+});
+
+describe('escapeMarkdown', () => {
+	it('escapes inline metacharacters', () => {
+		expect(escapeMarkdown('a *b* snake_case [x] <tag> ~~y~~ `z` C:\\dir')).toBe(
+			'a \\*b\\* snake\\_case \\[x\\] \\<tag> \\~\\~y\\~\\~ \\`z\\` C:\\\\dir'
+		);
+	});
+
+	it('escapes CriticMarkup-like braces only before + or -', () => {
+		expect(escapeMarkdown('{++add++} {x}')).toBe('\\{++add++} {x}');
+	});
+
+	it('escapes block markers only at the start of a line', () => {
+		expect(escapeMarkdown('# not a heading', true)).toBe('\\# not a heading');
+		expect(escapeMarkdown('# mid-paragraph')).toBe('# mid-paragraph');
+		expect(escapeMarkdown('> quote\n- item\n1. one\n---', true)).toBe(
+			'\\> quote\n\\- item\n1\\. one\n\\---'
+		);
+		expect(escapeMarkdown('#hashtag and 2024. was fine', true)).toBe(
+			'#hashtag and 2024. was fine'
+		);
+	});
+});
+
+describe('transformToMarkdown - escaping', () => {
+	function thread(id: string, quotedText: string, content = 'Note'): CommentThread {
+		return {
+			id,
+			anchorId: `c${id}`,
+			quotedText,
+			resolved: false,
+			comments: [{ authorName: 'A', authorEmail: '', content, isReply: false }]
+		};
+	}
+
+	function styledDoc(runs: Array<[string, TextStyle?]>): GoogleDocsDocument {
+		return {
+			documentId: 'test',
+			title: 'Notes',
+			body: {
+				content: [
+					{
+						startIndex: 0,
+						endIndex: 0,
+						paragraph: {
+							elements: runs.map(([content, textStyle]) => ({
+								startIndex: 0,
+								endIndex: 0,
+								textRun: { content, ...(textStyle ? { textStyle } : {}) }
+							}))
+						}
+					}
+				]
+			}
+		};
+	}
+
+	it('escapes document text so it renders literally', () => {
+		const md = transformToMarkdown(
+			makeDoc([
+				{ text: '# Not a heading\n' },
+				{ text: 'Use snake_case and 2*3*4.\n' },
+				{ text: '1. Plain numbered text\n' }
+			]),
+			[]
+		);
+		expect(md).toContain('\\# Not a heading');
+		expect(md).toContain('Use snake\\_case and 2\\*3\\*4.');
+		expect(md).toContain('1\\. Plain numbered text');
+	});
+
+	it('escapes the document title', () => {
+		const doc = makeDoc([{ text: 'Body\n' }]);
+		doc.title = 'Notes_v2 [draft]';
+		expect(transformToMarkdown(doc, [])).toMatch(/^# Notes\\_v2 \\\[draft\\\]/);
+	});
+
+	it('leaves code runs unescaped', () => {
+		const doc = styledDoc([
+			['call ', undefined],
+			['my_func(*args)', { weightedFontFamily: { fontFamily: 'Consolas' } }],
+			['\n', undefined]
+		]);
+		expect(transformToMarkdown(doc, [])).toContain('call `my_func(*args)`');
+	});
+
+	it('matches quotes against the escaped text', () => {
+		const doc = makeDoc([{ text: 'Rename snake_case here.\n' }]);
+		const md = transformToMarkdown(doc, [thread('1', 'snake_case')]);
+		expect(md).toContain('Rename [snake\\_case]^[c1] here.');
+		expect(md).not.toContain('Unanchored comments');
+	});
+
+	it('keeps anchor syntax in document text from looking like an anchor', () => {
+		const doc = makeDoc([{ text: 'Odd [text]^[c2] and x]^[c1] y ^[c3]\n' }]);
+		const md = transformToMarkdown(doc, []);
+		expect(md).toContain('Odd \\[text\\]^\\[c2\\] and x\\]^\\[c1\\] y ^\\[c3\\]');
+		expect(md).not.toMatch(/(?<!\\)\^\[c\d/);
+	});
+
+	it('escapes comment lines that look like a thread header', () => {
+		const md = formatCommentThread(thread('1', 'x', '[c2] **Bob**:'));
+		expect(md).toContain('> \\[c2] **Bob**:');
+	});
+});
+
+describe('transformToMarkdown - tabs and line breaks', () => {
+	it('renders a soft line break as a hard break', () => {
+		const md = transformToMarkdown(makeDoc([{ text: 'First line\vSecond line\n' }]), []);
+		expect(md).toContain('First line\\\nSecond line');
+	});
+
+	it('escapes a block marker after a line break', () => {
+		const md = transformToMarkdown(makeDoc([{ text: 'Total\v# 3\n' }]), []);
+		expect(md).toContain('Total\\\n\\# 3');
+	});
+
+	it('renders tabs as spaces', () => {
+		const md = transformToMarkdown(makeDoc([{ text: '\tName\tValue\n' }]), []);
+		expect(md).toContain('\n Name Value');
+	});
+
+	it('keeps a heading on one line', () => {
+		const md = transformToMarkdown(
+			makeDoc([{ text: 'Part one\vThe start\n', style: 'HEADING_2' }]),
+			[]
+		);
+		expect(md).toContain('## Part one The start\n');
+	});
+
+	it('skips page breaks and counts them in anchor offsets', () => {
+		const doc = makeDoc([{ text: 'x' }]);
+		doc.body.content[0].paragraph!.elements = [
+			{ startIndex: 0, endIndex: 0, textRun: { content: 'Ends here' } },
+			{ startIndex: 0, endIndex: 0, pageBreak: {} },
+			{ startIndex: 0, endIndex: 0, textRun: { content: 'Next page\n' } }
+		];
+		const thread: CommentThread = {
+			id: '1',
+			anchorId: 'c1',
+			quotedText: 'Next',
+			resolved: false,
+			anchorParaIndex: 0,
+			anchorStartOffset: 10,
+			anchorEndOffset: 14,
+			comments: [{ authorName: 'A', authorEmail: '', content: 'Note', isReply: false }]
+		};
+		expect(transformToMarkdown(doc, [thread])).toContain('Ends here[Next]^[c1] page');
+	});
+});
+
+describe('transformToMarkdown - comments only', () => {
+	const doc = makeDoc([
+		{ text: 'Design\n', style: 'HEADING_1' },
+		{ text: 'Intro one.\n' },
+		{ text: 'Intro two.\n' },
+		{ text: 'Risks\n', style: 'HEADING_2' },
+		{ text: 'First risk.\n' },
+		{ text: 'Second risk is large.\n' },
+		{ text: 'Third risk.\n' },
+		{ text: '\n' },
+		{ text: 'Fourth risk.\n' },
+		{ text: 'Closing words.\n' }
+	]);
+
+	function thread(id: string, quotedText: string, anchorParaIndex: number): CommentThread {
+		return {
+			id,
+			anchorId: `c${id}`,
+			quotedText,
+			resolved: false,
+			anchorParaIndex,
+			comments: [{ authorName: 'A', authorEmail: '', content: 'Why?', isReply: false }]
+		};
+	}
+
+	it('keeps anchored paragraphs with context, elisions and the heading trail', () => {
+		const md = transformToMarkdown(doc, [thread('1', 'large', 5)], { commentsOnly: true });
+		expect(md).toBe(
+			'# Test Doc\n\n' +
+				'…\n\n' +
+				'_Design > Risks_\n\n' +
+				'First risk.\n\n' +
+				'Second risk is [large]^[c1].\n\n' +
+				'> [c1] **A**:\n> Why?\n\n' +
+				'Third risk.\n\n' +
+				'…\n'
+		);
+	});
+
+	it('counts context in non-empty paragraphs and merges overlapping excerpts', () => {
+		const threads = [thread('1', 'Intro two', 2), thread('2', 'Fourth', 8)];
+		const md = transformToMarkdown(doc, threads, { commentsOnly: true, contextParagraphs: 2 });
+		// Two paragraphs either side reach across the empty one and cover
+		// the whole document, so nothing is elided.
+		expect(md).toBe(transformToMarkdown(doc, threads));
+	});
+
+	it('marks text left out between excerpts', () => {
+		const md = transformToMarkdown(
+			doc,
+			[thread('1', 'Intro one', 1), thread('2', 'Closing', 9)],
+			{ commentsOnly: true, contextParagraphs: 0 }
+		);
+		expect(md).toBe(
+			'# Test Doc\n\n' +
+				'…\n\n' +
+				'_Design_\n\n' +
+				'[Intro one]^[c1].\n\n' +
+				'> [c1] **A**:\n> Why?\n\n' +
+				'…\n\n' +
+				'_Design > Risks_\n\n' +
+				'[Closing]^[c2] words.\n\n' +
+				'> [c2] **A**:\n> Why?\n'
+		);
+	});
+
+	it('keeps every paragraph a spanning range covers', () => {
+		const spanning: CommentThread = {
+			...thread('1', 'First risk.', 4),
+			anchorStartOffset: 0,
+			anchorEndParaIndex: 6,
+			anchorEndOffset: 5
+		};
+		const md = transformToMarkdown(doc, [spanning], { commentsOnly: true, contextParagraphs: 0 });
+		expect(md).toContain('[First risk.]^[c1]\n\n[Second risk is large.]^[c1 cont.]\n\n[Third]^[c1 cont.] risk.');
+		expect(md).not.toContain('Fourth');
+	});
+});
+
+describe('transformToMarkdown - CriticMarkup', () => {
+	function docOf(...texts: string[]): GoogleDocsDocument {
+		return {
+			documentId: 'test',
+			title: 'Notes',
+			body: {
+				content: texts.map((text) => ({
+					startIndex: 0,
+					endIndex: 0,
+					paragraph: {
+						elements: [{ startIndex: 0, endIndex: 0, textRun: { content: `${text}\n` } }]
+					}
+				}))
+			}
+		};
+	}
+
+	function thread(id: string, extra: Partial<CommentThread> = {}): CommentThread {
+		return {
+			id,
+			anchorId: `c${id}`,
+			quotedText: '',
+			resolved: false,
+			anchorParaIndex: 0,
+			comments: [{ authorName: 'Sophia', authorEmail: 's@x.com', content: 'Why?', isReply: false }],
+			...extra
+		};
+	}
+
+	it('writes the highlight and the thread inline, replies in the same comment', () => {
+		const md = transformToMarkdown(
+			docOf('The plan starts here.'),
+			[
+				thread('1', {
+					quotedText: 'plan',
+					anchorStartOffset: 4,
+					anchorEndOffset: 8,
+					comments: [
+						{ authorName: 'Sophia', authorEmail: '', content: 'Which plan?', isReply: false },
+						{ authorName: 'Steve', authorEmail: '', content: 'The new\none.', isReply: true }
+					]
+				})
+			],
+			{ format: 'criticmarkup' }
+		);
+		expect(md).toBe(
+			'# Notes\n\nThe {==plan==}{>>Sophia: Which plan? — Steve: The new one.<<} starts here.\n'
+		);
+	});
+
+	it('writes a point comment on its own', () => {
+		const md = transformToMarkdown(
+			docOf('Moves to Friday.'),
+			[thread('1', { anchorStartOffset: 9 })],
+			{ format: 'criticmarkup' }
+		);
+		expect(md).toContain('Moves to {>>Sophia: Why?<<}Friday.');
+	});
+
+	it('highlights each paragraph of a spanning range, the comment on the first', () => {
+		const md = transformToMarkdown(
+			docOf('Section opens here', 'Whole middle paragraph', 'Last bit stays out'),
+			[
+				thread('1', {
+					quotedText: 'opens here',
+					anchorStartOffset: 8,
+					anchorEndParaIndex: 2,
+					anchorEndOffset: 4
+				})
+			],
+			{ format: 'criticmarkup' }
+		);
+		expect(md).toBe(
+			'# Notes\n\n' +
+				'Section {==opens here==}{>>Sophia: Why?<<}\n\n' +
+				'{==Whole middle paragraph==}\n\n' +
+				'{==Last==} bit stays out\n'
+		);
+	});
+
+	it('lists threads that lose a contested position as unanchored', () => {
+		const md = transformToMarkdown(
+			docOf('one two three'),
+			[
+				thread('1', { quotedText: 'two', anchorStartOffset: 4, anchorEndOffset: 7 }),
+				thread('2', { quotedText: 'one two three', anchorStartOffset: 0, anchorEndOffset: 13 })
+			],
+			{ format: 'criticmarkup' }
+		);
+		expect(md).toContain('{==one two three==}{>>Sophia: Why?<<}');
+		expect(md).toContain('## Unanchored comments\n\n- {==two==}{>>Sophia: Why?<<}\n');
+	});
+
+	it('formats resolved threads and timestamps', () => {
+		const resolved = thread('1', {
+			resolved: true,
+			comments: [
+				{
+					authorName: 'Sophia',
+					authorEmail: '',
+					content: 'Done',
+					isReply: false,
+					createdAt: '2026-03-04T14:02:00Z'
+				}
+			]
+		});
+		expect(formatCriticComment(resolved, { timestamps: true })).toBe(
+			'(resolved) Sophia · 2026-03-04 14:02: Done'
+		);
+	});
+
+	it('keeps CriticMarkup in the document text inert', () => {
+		const corpus = [
+			'see {>>fake<<} and {==x==} here',
+			'{~~a~>b~~} swapped',
+			'{++added++} and {--removed--}',
+			'nested {=={>>both<<}==}'
+		];
+		// Openers not preceded by a backslash: only the real thread's two.
+		const live = /(?<!\\)\{(?:==|>>|~~|\+\+|--)/g;
+		for (const text of corpus) {
+			const md = transformToMarkdown(
+				docOf(text, 'Real words here.'),
+				[thread('1', { quotedText: 'words', anchorParaIndex: 1 })],
+				{ format: 'criticmarkup' }
+			);
+			expect(md.match(live)).toEqual(['{==', '{>>']);
+			expect(md).toContain('Real {==words==}{>>Sophia: Why?<<} here.');
+		}
+	});
+
+	it('escapes closing delimiters in quotes and comments', () => {
+		const comments = [
+			{ authorName: 'Sophia', authorEmail: '', content: 'Use <<} here?', isReply: false }
+		];
+		const md = transformToMarkdown(
+			docOf('Write a==}b now.'),
+			[
+				thread('1', { quotedText: 'a==}b', anchorStartOffset: 6, anchorEndOffset: 11, comments }),
+				thread('2', { quotedText: 'x==}y', anchorParaIndex: undefined, comments })
+			],
+			{ format: 'criticmarkup' }
+		);
+		expect(md).toContain('Write {==a==\\}b==}{>>Sophia: Use <<\\} here?<<} now.');
+		expect(md).toContain('- {==x==\\}y==}{>>Sophia: Use <<\\} here?<<}');
+	});
+});
+
+describe('transformToMarkdown - Pandoc footnotes', () => {
+	function docOf(...texts: string[]): GoogleDocsDocument {
+		return {
+			documentId: 'test',
+			title: 'Notes',
+			body: {
+				content: texts.map((text) => ({
+					startIndex: 0,
+					endIndex: 0,
+					paragraph: {
+						elements: [{ startIndex: 0, endIndex: 0, textRun: { content: `${text}\n` } }]
+					}
+				}))
+			}
+		};
+	}
+
+	function thread(id: string, extra: Partial<CommentThread> = {}): CommentThread {
+		return {
+			id,
+			anchorId: `c${id}`,
+			quotedText: '',
+			resolved: false,
+			anchorParaIndex: 0,
+			comments: [{ authorName: 'Sophia', authorEmail: '', content: 'Why?', isReply: false }],
+			...extra
+		};
+	}
+
+	it('places the reference after the text and the definition after the paragraph', () => {
+		const md = transformToMarkdown(
+			docOf('The plan starts here.', 'Next.'),
+			[thread('1', { quotedText: 'plan', anchorStartOffset: 4, anchorEndOffset: 8 })],
+			{ format: 'footnotes' }
+		);
+		expect(md).toBe(
+			'# Notes\n\nThe plan[^c1] starts here.\n\n[^c1]: **Sophia**: Why?\n\nNext.\n'
+		);
+	});
+
+	it('separates the definitions of threads in one paragraph', () => {
+		const md = transformToMarkdown(
+			docOf('The plan starts here.'),
+			[
+				thread('1', { quotedText: 'plan', anchorStartOffset: 4, anchorEndOffset: 8 }),
+				thread('2', { quotedText: 'here', anchorStartOffset: 16, anchorEndOffset: 20 })
+			],
+			{ format: 'footnotes' }
+		);
+		expect(md).toBe(
+			'# Notes\n\nThe plan[^c1] starts here[^c2].\n\n' +
+				'[^c1]: **Sophia**: Why?\n\n' +
+				'[^c2]: **Sophia**: Why?\n'
+		);
+	});
+
+	it('indents replies and further lines inside the definition', () => {
+		const replied = thread('1', {
+			resolved: true,
+			comments: [
+				{ authorName: 'Sophia', authorEmail: 's@x.com', content: 'Two\nlines', isReply: false },
+				{ authorName: 'Steve', authorEmail: '', content: 'Agreed.', isReply: true }
+			]
+		});
+		expect(formatFootnoteThread(replied)).toBe(
+			'[^c1]: _Resolved._ **Sophia** (s@x.com): Two\n' +
+				'    lines\n' +
+				'\n' +
+				'    **Steve**: Agreed.'
+		);
+	});
+
+	it('references a point comment and the first span of a spanning range', () => {
+		const point = transformToMarkdown(
+			docOf('Moves to Friday.'),
+			[thread('1', { anchorStartOffset: 9 })],
+			{ format: 'footnotes' }
+		);
+		expect(point).toContain('Moves to [^c1]Friday.');
+
+		const spanning = transformToMarkdown(
+			docOf('Section opens here', 'Whole middle paragraph', 'Last bit stays out'),
+			[
+				thread('1', {
+					quotedText: 'opens here',
+					anchorStartOffset: 8,
+					anchorEndParaIndex: 2,
+					anchorEndOffset: 4
+				})
+			],
+			{ format: 'footnotes' }
+		);
+		expect(spanning).toBe(
+			'# Notes\n\n' +
+				'Section opens here[^c1]\n\n' +
+				'Whole middle paragraph\n\n' +
+				'Last bit stays out\n\n' +
+				'[^c1]: **Sophia**: Why?\n'
+		);
+	});
+
+	it('keeps unanchored threads as blockquotes', () => {
+		const md = transformToMarkdown(
+			docOf('one two three'),
+			[
+				thread('1', { quotedText: 'two', anchorStartOffset: 4, anchorEndOffset: 7 }),
+				thread('2', { quotedText: 'one two three', anchorStartOffset: 0, anchorEndOffset: 13 })
+			],
+			{ format: 'footnotes' }
+		);
+		expect(md).toContain('one two three[^c1]');
+		expect(md).toContain('## Unanchored comments\n\n> [c2] **Sophia**:\n> Why?\n');
+	});
+});
@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite';
+import { fileURLToPath } from 'node:url';
+
+// Bundles the command-line converter (src/cli) into a single Node ESM file.
+// The library code is inlined; runtime packages stay external and resolve
+// from node_modules.
+export default defineConfig({
+	resolve: {
+		alias: {
+			$lib: fileURLToPath(new URL('./src/lib', import.meta.url))
+		}
+	},
+	build: {
+		ssr: 'src/cli/main.ts',
+		outDir: 'dist/cli',
+		emptyOutDir: true,
+		target: 'node18',
+		rollupOptions: {
+			external: ['jsdom', 'fflate'],
+			output: {
+				entryFileNames: 'gdoc-comments-md.js',
+				banner: '#!/usr/bin/env node'
+			}
+		}
+	}
+});